@@ -0,0 +1,33 @@
+/* Shared firebase-admin setup so the server and scripts use one initialized app */
+const path = require('path');
+require('dotenv').config({ path: path.join(__dirname, '.env'), quiet: true });
+const admin = require('firebase-admin');
+
+// Local emulator mode: USE_FIREBASE_EMULATORS=true in .env (see .env.example).
+// The Admin SDK routes to the emulators when these host variables are set,
+// and no service account key is needed.
+const useEmulators = process.env.USE_FIREBASE_EMULATORS === 'true';
+
+if (useEmulators) {
+  process.env.FIRESTORE_EMULATOR_HOST ||= 'localhost:8080';
+  process.env.FIREBASE_AUTH_EMULATOR_HOST ||= 'localhost:9099';
+
+  // Must match the app's projectId so both sides see the same emulator data
+  admin.initializeApp({
+    projectId: process.env.FIREBASE_PROJECT_ID || 'studysession-app',
+  });
+  console.log(`Using Firebase emulators (Firestore ${process.env.FIRESTORE_EMULATOR_HOST}, ` +
+    `Auth ${process.env.FIREBASE_AUTH_EMULATOR_HOST})`);
+} else {
+  // Path to your service account key
+  const serviceAccount = require(path.join(__dirname, 'serviceAccountKey.json'));
+
+  // Initialize Firebase Admin SDK
+  admin.initializeApp({
+    credential: admin.credential.cert(serviceAccount),
+  });
+}
+
+const db = admin.firestore();
+
+module.exports = { admin, db, useEmulators };
@@ -0,0 +1,8 @@
+/* Course key helper; must match courseKey in
+   studysync-frontend/utils/notificationPreferences.ts, which stores the
+   keys a user follows in users/{uid}.courseKeys. */
+
+// "CS 124", "cs124" and "CS-124" are the same course
+const courseKey = (course) => String(course).replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+module.exports = { courseKey };
@@ -0,0 +1,11 @@
+/* Error carrying an HTTP status; the error handler in index.js sends
+   `{ error: message }` with that status for anything below 500. */
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+module.exports = HttpError;
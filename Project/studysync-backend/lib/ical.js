@@ -0,0 +1,98 @@
+/* Minimal RFC 5545 (iCalendar) writer for session feeds.
+   Handles the parts calendar apps are strict about: CRLF line endings,
+   75-octet line folding, text escaping and UTC date-times. */
+
+// 2025-10-20T18:20:00.000Z -> 20251020T182000Z
+const formatUtc = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+
+// Escape commas, semicolons, backslashes and newlines in TEXT values
+const escapeText = (value) =>
+  String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Fold lines longer than 75 octets; continuation lines start with a space
+const foldLine = (line) => {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    // First line may hold 75 octets, continuations 74 (plus the leading space)
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Build one VEVENT.
+ * @param {object} event
+ * @param {string} event.uid stable identifier, kept across updates
+ * @param {number} [event.sequence] bumped whenever the event details change
+ * @param {Date} event.start
+ * @param {Date} event.end
+ * @param {Date} [event.lastModified]
+ * @param {string} event.summary
+ * @param {string} [event.description]
+ * @param {string} [event.location]
+ * @param {{ latitude: number, longitude: number }} [event.geo]
+ * @param {'CONFIRMED'|'CANCELLED'} [event.status]
+ */
+const buildEvent = (event, dtstamp) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(dtstamp)}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  // Skip the (0,0) fallback coordinates used when Places lookup failed
+  if (event.geo && (event.geo.latitude || event.geo.longitude)) {
+    lines.push(`GEO:${event.geo.latitude};${event.geo.longitude}`);
+  }
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Build a full VCALENDAR document.
+ * @param {{ name: string, events: object[], refreshInterval?: string }} calendar
+ */
+const buildCalendar = ({ name, events, refreshInterval = 'PT1H' }) => {
+  const dtstamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//StudySync//Study Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hints for how often subscribed clients should re-fetch the feed
+    `REFRESH-INTERVAL;VALUE=DURATION:${refreshInterval}`,
+    `X-PUBLISHED-TTL:${refreshInterval}`,
+    ...events.flatMap((event) => buildEvent(event, dtstamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+module.exports = { buildCalendar, formatUtc, escapeText };
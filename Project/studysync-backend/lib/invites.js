@@ -0,0 +1,32 @@
+/* Invite codes for unlisted and invite-only sessions. One code is shared by
+   every occurrence of a series, so a single link covers the whole series.
+   The app builds studysync://invite/<code> links from it (utils/sessions.ts). */
+const crypto = require('crypto');
+
+// No 0/O or 1/I/L, so codes read aloud or typed from a screenshot still work
+const INVITE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+const generateInviteCode = () =>
+  Array.from({ length: INVITE_CODE_LENGTH }, () => INVITE_ALPHABET[crypto.randomInt(INVITE_ALPHABET.length)]).join('');
+
+// Codes are case-insensitive and may be pasted with spaces or dashes
+const normalizeInviteCode = (code) =>
+  typeof code === 'string' ? code.replace(/[^a-z0-9]/gi, '').toUpperCase() : '';
+
+// Whether `code` is this session's current invite code
+const matchesInviteCode = (session, code) =>
+  !!session.inviteCode && normalizeInviteCode(code) === session.inviteCode;
+
+// The creator and everyone on one of the session's lists can always see it
+const isSessionMember = (session, uid) =>
+  session.creatorId === uid
+  || ['attendees', 'waitlist', 'pendingRequests', 'interested', 'dropIns']
+    .some((list) => (session[list] || []).includes(uid));
+
+module.exports = {
+  generateInviteCode,
+  normalizeInviteCode,
+  matchesInviteCode,
+  isSessionMember,
+};
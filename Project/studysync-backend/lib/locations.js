@@ -0,0 +1,84 @@
+/* Location helpers shared by the rating service and scripts. The ID must
+   match generateLocationId in studysync-frontend/utils/locationRatings.ts so
+   both sides key "locationRatings" documents the same way. */
+
+// Google Place ID when available, otherwise normalized name + rounded coordinates
+const generateLocationId = (placeId, name, coords) => {
+  if (placeId) {
+    return `place_${placeId}`;
+  }
+  if (coords && name) {
+    const lat = coords.latitude.toFixed(4);
+    const lng = coords.longitude.toFixed(4);
+    const normalizedName = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return `loc_${normalizedName}_${lat}_${lng}`;
+  }
+  throw new Error('Either placeId or name+coords must be provided');
+};
+
+// Per-star histogram stored on a location as `ratingCounts` { 1: n, ..., 5: n }
+const emptyRatingCounts = () => ({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 });
+
+// averageRating (2 decimals, 0 when unrated) and totalRatings from a histogram
+const summarizeRatingCounts = (counts) => {
+  let totalRatings = 0;
+  let sum = 0;
+  for (let star = 1; star <= 5; star++) {
+    const count = counts[star] || 0;
+    totalRatings += count;
+    sum += star * count;
+  }
+  const averageRating = totalRatings > 0 ? parseFloat((sum / totalRatings).toFixed(2)) : 0;
+  return { averageRating, totalRatings };
+};
+
+// Optional 1-5 scores on a review (noise: 1 = silent, 5 = loud; the rest higher = better).
+// Same keys as LOCATION_ATTRIBUTES in studysync-frontend/utils/locationRatings.ts
+const LOCATION_ATTRIBUTES = ['noise', 'outlets', 'wifi', 'seating', 'groupFriendly'];
+
+// Amenity tags a reviewer can tick (AMENITY_TAGS in the app)
+const AMENITY_TAGS = ['whiteboards', 'food', 'printing', 'bookableRooms', 'openLate', 'naturalLight', 'accessible'];
+
+// Aggregates kept on a location document besides averageRating/totalRatings:
+// ratingCounts, attributeScores { noise: { total, count }, ... } and amenityCounts { tag: n }
+const readAggregates = (data = {}) => {
+  const attributeScores = {};
+  Object.entries(data.attributeScores || {}).forEach(([key, value]) => {
+    attributeScores[key] = { total: value.total || 0, count: value.count || 0 };
+  });
+  return {
+    ratingCounts: { ...emptyRatingCounts(), ...data.ratingCounts },
+    attributeScores,
+    amenityCounts: { ...data.amenityCounts },
+  };
+};
+
+// Add (sign 1) or remove (sign -1) one review's stars, scores and tags
+const applyReview = (aggregates, review, sign) => {
+  const { ratingCounts, attributeScores, amenityCounts } = aggregates;
+  if (ratingCounts[review.rating] !== undefined) {
+    ratingCounts[review.rating] = Math.max(0, ratingCounts[review.rating] + sign);
+  }
+  Object.entries(review.attributes || {}).forEach(([key, score]) => {
+    if (!LOCATION_ATTRIBUTES.includes(key)) return;
+    const current = attributeScores[key] || { total: 0, count: 0 };
+    attributeScores[key] = {
+      total: Math.max(0, current.total + sign * score),
+      count: Math.max(0, current.count + sign),
+    };
+  });
+  (review.amenities || []).forEach((tag) => {
+    if (!AMENITY_TAGS.includes(tag)) return;
+    amenityCounts[tag] = Math.max(0, (amenityCounts[tag] || 0) + sign);
+  });
+};
+
+module.exports = {
+  generateLocationId,
+  emptyRatingCounts,
+  summarizeRatingCounts,
+  LOCATION_ATTRIBUTES,
+  AMENITY_TAGS,
+  readAggregates,
+  applyReview,
+};
@@ -0,0 +1,141 @@
+/* Weekly recurrence rules (an RRULE subset) for session series.
+   A rule looks like { freq: 'weekly', interval: 1, byDay: ['TU', 'TH'], count: 10 }
+   or uses `until` (ISO date) instead of `count`. Occurrences keep the same
+   wall-clock time in the campus time zone, so a 6 PM session stays at 6 PM
+   across daylight-saving changes. */
+const { campusTimeZone } = require('./time');
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Keep a series to one semester-ish so a typo cannot create thousands of documents
+const MAX_OCCURRENCES = 52;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wall-clock parts of an instant in a time zone
+const toZonedParts = (date, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type) => Number(parts.find((p) => p.type === type).value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Offset of the time zone from UTC at an instant, in ms
+const zoneOffset = (date, timeZone) => {
+  const p = toZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Instant at which the time zone's clock shows the given wall-clock time (ms since epoch, as if UTC)
+const fromZonedWallClock = (wallClockMs, timeZone) => {
+  const guess = wallClockMs - zoneOffset(new Date(wallClockMs), timeZone);
+  // Re-check once: the offset at the guess can differ near a DST switch
+  return new Date(wallClockMs - zoneOffset(new Date(guess), timeZone));
+};
+
+const toWallClockMs = (date, timeZone) => {
+  const p = toZonedParts(date, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+};
+
+/**
+ * Move an instant by `deltaMs` of wall-clock time in the campus time zone.
+ * Used to apply "all future occurrences" time edits without DST drift.
+ */
+const shiftWallClock = (date, deltaMs, timeZone = campusTimeZone()) =>
+  fromZonedWallClock(toWallClockMs(date, timeZone) + deltaMs, timeZone);
+
+// Wall-clock difference between two instants (e.g. "moved 1 hour later, 1 day earlier")
+const wallClockDelta = (from, to, timeZone = campusTimeZone()) =>
+  toWallClockMs(to, timeZone) - toWallClockMs(from, timeZone);
+
+/**
+ * Validate a recurrence rule from a request body.
+ * Returns { rule, error }; `rule` is normalized (upper-case days, interval default 1).
+ */
+const parseRecurrenceRule = (input) => {
+  if (input == null || typeof input !== 'object') {
+    return { error: 'recurrence must be an object' };
+  }
+  if (input.freq !== 'weekly') {
+    return { error: 'recurrence.freq must be "weekly"' };
+  }
+
+  const interval = input.interval ?? 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 4) {
+    return { error: 'recurrence.interval must be an integer from 1 to 4' };
+  }
+
+  const byDay = Array.isArray(input.byDay) ? [...new Set(input.byDay.map((d) => String(d).toUpperCase()))] : [];
+  if (byDay.length === 0 || !byDay.every((d) => WEEKDAYS.includes(d))) {
+    return { error: `recurrence.byDay must list days from: ${WEEKDAYS.join(', ')}` };
+  }
+
+  const hasCount = input.count != null;
+  const hasUntil = input.until != null;
+  if (hasCount === hasUntil) {
+    return { error: 'recurrence needs exactly one of count or until' };
+  }
+  if (hasCount && (!Number.isInteger(input.count) || input.count < 1 || input.count > MAX_OCCURRENCES)) {
+    return { error: `recurrence.count must be an integer from 1 to ${MAX_OCCURRENCES}` };
+  }
+  const until = hasUntil ? new Date(input.until) : null;
+  if (hasUntil && (typeof input.until !== 'string' || isNaN(until.getTime()))) {
+    return { error: 'recurrence.until must be an ISO date string' };
+  }
+
+  const rule = { freq: 'weekly', interval, byDay: WEEKDAYS.filter((d) => byDay.includes(d)) };
+  if (hasCount) rule.count = input.count;
+  if (until) rule.until = until.toISOString();
+  return { rule };
+};
+
+/**
+ * Occurrence start times for a rule, beginning with `start` itself.
+ * Weeks are counted from the week (Sunday-based) that contains `start`.
+ * @returns {Date[]} at most MAX_OCCURRENCES dates
+ */
+const expandRecurrence = (start, rule, timeZone = campusTimeZone()) => {
+  const startWall = toWallClockMs(start, timeZone);
+  const startDay = Math.floor(startWall / DAY_MS);
+  const timeOfDay = startWall - startDay * DAY_MS;
+  // 1970-01-01 was a Thursday, so (day + 4) % 7 gives 0 = Sunday
+  const weekStart = startDay - ((startDay + 4) % 7);
+  const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  const occurrences = [start];
+  // Scan at most a year of weeks past the start so sparse rules still terminate
+  const lastDay = startDay + 366 * rule.interval;
+  for (let day = startDay + 1; occurrences.length < limit && day <= lastDay; day++) {
+    const week = Math.floor((day - weekStart) / 7);
+    if (week % rule.interval !== 0 || !rule.byDay.includes(WEEKDAYS[(day + 4) % 7])) continue;
+
+    const occurrence = fromZonedWallClock(day * DAY_MS + timeOfDay, timeZone);
+    if (occurrence.getTime() > until) break;
+    occurrences.push(occurrence);
+  }
+  return occurrences;
+};
+
+module.exports = {
+  MAX_OCCURRENCES,
+  parseRecurrenceRule,
+  expandRecurrence,
+  shiftWallClock,
+  wallClockDelta,
+};
@@ -0,0 +1,17 @@
+/* Date formatting for server-written text such as notifications.
+   The server may run in UTC, so times are shown in the campus time zone
+   (CAMPUS_TIME_ZONE, default America/Chicago) rather than the host's. */
+
+const campusTimeZone = () => process.env.CAMPUS_TIME_ZONE || 'America/Chicago';
+
+// Date -> "Oct 20, 6:30 PM"
+const formatDateTime = (date) =>
+  date.toLocaleString('en-US', {
+    timeZone: campusTimeZone(),
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+module.exports = { campusTimeZone, formatDateTime };
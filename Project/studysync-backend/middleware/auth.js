@@ -0,0 +1,54 @@
+/* Firebase ID-token authentication and role helpers for Express routes.
+   Clients send `Authorization: Bearer <idToken>` (from user.getIdToken()).
+   Custom claims (set with scripts/set-claims.js):
+   - admin: true                  -> may manage any session
+   - courseStaff: ['CS 124', ...] -> may manage sessions for those courses (true = every course) */
+const { admin } = require('../firebase');
+
+const BEARER_PREFIX = 'Bearer ';
+
+// Verify the ID token and attach the decoded token to req.user
+const requireAuth = async (req, res, next) => {
+  const header = req.get('Authorization') || '';
+  if (!header.startsWith(BEARER_PREFIX)) {
+    return res.status(401).json({ error: 'Missing Authorization: Bearer <idToken> header' });
+  }
+
+  const idToken = header.slice(BEARER_PREFIX.length).trim();
+  try {
+    req.user = await admin.auth().verifyIdToken(idToken);
+  } catch (error) {
+    // Expired, revoked or malformed tokens all mean the caller must sign in again
+    console.warn('Rejected ID token:', error.code || error.message);
+    return res.status(401).json({ error: 'Invalid or expired ID token' });
+  }
+  next();
+};
+
+const isAdmin = (user) => user?.admin === true;
+
+const isCourseStaff = (user, course) => {
+  const staff = user?.courseStaff;
+  if (staff === true) return true;
+  return Array.isArray(staff) && staff.includes(course);
+};
+
+// Creator, admins and staff of the session's course may edit or remove it
+const canManageSession = (user, session) =>
+  !!user && (session.creatorId === user.uid || isAdmin(user) || isCourseStaff(user, session.course));
+
+// Gate a route on a custom claim, e.g. router.post('/x', requireAuth, requireClaim('admin'), ...)
+const requireClaim = (claim) => (req, res, next) => {
+  if (!req.user || !req.user[claim]) {
+    return res.status(403).json({ error: `Requires the "${claim}" role` });
+  }
+  next();
+};
+
+module.exports = {
+  requireAuth,
+  requireClaim,
+  isAdmin,
+  isCourseStaff,
+  canManageSession,
+};
@@ -0,0 +1,257 @@
+/* Session model helpers shared by the REST routes.
+   Mirrors StudySessionFirestore in the frontend (app/studysessions.tsx):
+   Firestore stores Timestamps, the API speaks ISO date strings. */
+const { admin } = require('../firebase');
+const { formatDateTime } = require('../lib/time');
+
+const { Timestamp } = admin.firestore;
+
+const SIGNUP_POLICIES = ['required', 'preferred', 'open'];
+// public: listed for everyone; unlisted: only reachable through the invite link;
+// invite: reachable through the link and joining requires its code
+const VISIBILITIES = ['public', 'unlisted', 'invite'];
+
+// Convert a Firestore Timestamp (or missing value) to an ISO string or null
+const toIso = (value) => (value instanceof Timestamp ? value.toDate().toISOString() : null);
+
+// Firestore document -> JSON response shape.
+// The invite code is only included for callers allowed to share it (see routes/sessions.js).
+const serializeSession = (doc, { includeInviteCode = false } = {}) => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    creatorId: data.creatorId,
+    creatorName: data.creatorName,
+    course: data.course,
+    topic: data.topic,
+    locationName: data.locationName,
+    locationDetails: data.locationDetails ?? null,
+    locationCoords: data.locationCoords ?? { latitude: 0, longitude: 0 },
+    startTime: toIso(data.startTime),
+    endTime: toIso(data.endTime),
+    signupPolicy: data.signupPolicy || 'open',
+    capacity: data.capacity ?? null,
+    attendees: data.attendees || [],
+    waitlist: data.waitlist || [],
+    pendingRequests: data.pendingRequests || [],
+    interested: data.interested || [],
+    dropIns: data.dropIns || [],
+    isFull: data.isFull || false,
+    seriesId: data.seriesId ?? null,
+    recurrence: data.recurrence ?? null,
+    visibility: data.visibility || 'public',
+    ...(includeInviteCode && { inviteCode: data.inviteCode ?? null }),
+    status: data.status || 'active',
+    cancelReason: data.cancelReason ?? null,
+    cancelledAt: toIso(data.cancelledAt),
+    createdAt: toIso(data.createdAt),
+  };
+};
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+const parseDate = (value) => {
+  const date = new Date(value);
+  return typeof value === 'string' && !isNaN(date.getTime()) ? date : null;
+};
+
+const isValidCoords = (coords) =>
+  coords != null &&
+  typeof coords.latitude === 'number' &&
+  typeof coords.longitude === 'number' &&
+  Math.abs(coords.latitude) <= 90 &&
+  Math.abs(coords.longitude) <= 180;
+
+/**
+ * Validate a request body and build the Firestore fields it describes.
+ * With `partial: true` (PATCH) only the fields present in the body are checked.
+ * Returns { fields, errors }; `null` for an optional field means "remove it".
+ */
+const parseSessionInput = (body, { partial = false } = {}) => {
+  const input = body || {};
+  const fields = {};
+  const errors = [];
+  const has = (key) => Object.prototype.hasOwnProperty.call(input, key);
+
+  ['creatorId', 'creatorName', 'course', 'topic', 'locationName'].forEach((key) => {
+    if (has(key)) {
+      if (isNonEmptyString(input[key])) {
+        fields[key] = input[key].trim();
+      } else {
+        errors.push(`${key} must be a non-empty string`);
+      }
+    } else if (!partial) {
+      errors.push(`${key} is required`);
+    }
+  });
+
+  if (has('locationDetails')) {
+    if (input.locationDetails === null || input.locationDetails === '') {
+      fields.locationDetails = null;
+    } else if (typeof input.locationDetails === 'string') {
+      fields.locationDetails = input.locationDetails.trim();
+    } else {
+      errors.push('locationDetails must be a string');
+    }
+  }
+
+  if (has('locationCoords')) {
+    if (isValidCoords(input.locationCoords)) {
+      fields.locationCoords = {
+        latitude: input.locationCoords.latitude,
+        longitude: input.locationCoords.longitude,
+      };
+    } else {
+      errors.push('locationCoords must have numeric latitude and longitude');
+    }
+  } else if (!partial) {
+    errors.push('locationCoords is required');
+  }
+
+  if (has('startTime')) {
+    const start = parseDate(input.startTime);
+    if (start) {
+      fields.startTime = Timestamp.fromDate(start);
+    } else {
+      errors.push('startTime must be an ISO date string');
+    }
+  } else if (!partial) {
+    errors.push('startTime is required');
+  }
+
+  if (has('endTime')) {
+    if (input.endTime === null) {
+      fields.endTime = null;
+    } else {
+      const end = parseDate(input.endTime);
+      if (end) {
+        fields.endTime = Timestamp.fromDate(end);
+      } else {
+        errors.push('endTime must be an ISO date string or null');
+      }
+    }
+  }
+
+  if (has('signupPolicy')) {
+    if (SIGNUP_POLICIES.includes(input.signupPolicy)) {
+      fields.signupPolicy = input.signupPolicy;
+    } else {
+      errors.push(`signupPolicy must be one of: ${SIGNUP_POLICIES.join(', ')}`);
+    }
+  } else if (!partial) {
+    fields.signupPolicy = 'open';
+  }
+
+  if (has('visibility')) {
+    if (VISIBILITIES.includes(input.visibility)) {
+      fields.visibility = input.visibility;
+    } else {
+      errors.push(`visibility must be one of: ${VISIBILITIES.join(', ')}`);
+    }
+  } else if (!partial) {
+    fields.visibility = 'public';
+  }
+
+  if (has('capacity')) {
+    if (input.capacity === null) {
+      fields.capacity = null;
+    } else if (Number.isInteger(input.capacity) && input.capacity > 0) {
+      fields.capacity = input.capacity;
+    } else {
+      errors.push('capacity must be a positive integer or null');
+    }
+  }
+
+  // Attendance only changes through join/leave and request approval, which
+  // enforce capacity, the waitlist and notifications
+  if (has('attendees')) {
+    errors.push('attendees cannot be set directly; use the join, leave and approve endpoints');
+  }
+
+  return { fields, errors };
+};
+
+// Session is full only when a capacity is set and reached
+const computeIsFull = (capacity, attendees) => (capacity ? attendees.length >= capacity : false);
+
+/**
+ * Move users from the front of the waitlist into open spots.
+ * Returns the new attendees/waitlist arrays and who was promoted.
+ */
+const promoteFromWaitlist = (capacity, attendees, waitlist) => {
+  const openSpots = capacity ? Math.max(capacity - attendees.length, 0) : waitlist.length;
+  const promoted = waitlist.slice(0, openSpots);
+  return {
+    attendees: [...attendees, ...promoted],
+    waitlist: waitlist.slice(promoted.length),
+    promoted,
+  };
+};
+
+// End time must be after start time whenever both are present
+const hasValidTimeRange = (startTime, endTime) =>
+  !endTime || !startTime || endTime.toMillis() > startTime.toMillis();
+
+/**
+ * Turn parsed fields into a Firestore update payload: `null` optional
+ * fields become deletes so documents never carry undefined/null junk.
+ */
+const toFirestoreUpdate = (fields) => {
+  const update = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === null && (key === 'locationDetails' || key === 'capacity')) {
+      update[key] = admin.firestore.FieldValue.delete();
+    } else {
+      update[key] = value;
+    }
+  });
+  return update;
+};
+
+const VISIBILITY_CHANGES = {
+  public: 'Now listed publicly',
+  unlisted: 'Now only reachable through its invite link',
+  invite: 'Now invite-only',
+};
+
+const sameTimestamp = (a, b) => (a && b ? a.isEqual(b) : a == b);
+
+/**
+ * Human-readable list of what an edit changed, for attendee notifications.
+ * `before` is the stored document, `fields` the parsed PATCH fields.
+ */
+const describeSessionChanges = (before, fields) => {
+  const changes = [];
+  const changed = (key) => key in fields && fields[key] !== (before[key] ?? null);
+
+  if (changed('course')) changes.push(`Course is now ${fields.course}`);
+  if (changed('topic')) changes.push(`Topic is now "${fields.topic}"`);
+  if (changed('locationName')) changes.push(`Moved to ${fields.locationName}`);
+  if (changed('locationDetails')) {
+    changes.push(fields.locationDetails ? `Room details: ${fields.locationDetails}` : 'Room details removed');
+  }
+  if ('startTime' in fields && !sameTimestamp(fields.startTime, before.startTime)) {
+    changes.push(`Now starts ${formatDateTime(fields.startTime.toDate())}`);
+  }
+  if ('endTime' in fields && !sameTimestamp(fields.endTime, before.endTime ?? null)) {
+    changes.push(fields.endTime ? `Now ends ${formatDateTime(fields.endTime.toDate())}` : 'End time removed');
+  }
+  if (changed('capacity')) {
+    changes.push(fields.capacity ? `Capacity is now ${fields.capacity}` : 'Capacity limit removed');
+  }
+  if (changed('signupPolicy')) changes.push(`Sign-up is now ${fields.signupPolicy}`);
+  if (changed('visibility')) changes.push(VISIBILITY_CHANGES[fields.visibility]);
+  return changes;
+};
+
+module.exports = {
+  SIGNUP_POLICIES,
+  VISIBILITIES,
+  serializeSession,
+  parseSessionInput,
+  computeIsFull,
+  promoteFromWaitlist,
+  hasValidTimeRange,
+  toFirestoreUpdate,
+  describeSessionChanges,
+};
@@ -0,0 +1,102 @@
+/* Personal iCalendar subscription feeds.
+   Each user gets a secret token; GET /calendar/<token>.ics lists every session
+   they created or joined. Calendar apps poll the URL, so edits and
+   cancellations show up without re-adding events. */
+const crypto = require('crypto');
+const express = require('express');
+const { admin, db } = require('../firebase');
+const { requireAuth } = require('../middleware/auth');
+const { buildCalendar } = require('../lib/ical');
+
+const router = express.Router();
+const feedsRef = db.collection('calendarFeeds');
+const sessionsRef = db.collection('sessions');
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+// Keep the feed small: sessions that ended more than this long ago are left out
+const FEED_HISTORY_MS = 60 * 24 * ONE_HOUR_MS;
+
+// PUBLIC_URL overrides the request host when the server sits behind a proxy
+const feedUrls = (req, token) => {
+  const baseUrl = process.env.PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  const url = `${baseUrl}/calendar/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+// Session document -> VEVENT fields
+const toEvent = (doc) => {
+  const data = doc.data();
+  const start = data.startTime.toDate();
+  // No end time: show a 1-hour block, matching how the app treats open-ended sessions
+  const end = data.endTime ? data.endTime.toDate() : new Date(start.getTime() + ONE_HOUR_MS);
+
+  const description = [`Study session hosted by ${data.creatorName}`];
+  if (data.locationDetails) description.push(`Location details: ${data.locationDetails}`);
+  if (!data.endTime) description.push('Note: This event has no specified end time.');
+  if (data.status === 'cancelled' && data.cancelReason) description.push(`Cancelled: ${data.cancelReason}`);
+
+  const lastModified = data.updatedAt || data.createdAt;
+  return {
+    uid: `${doc.id}@studysync`,
+    sequence: data.revision || 0,
+    start,
+    end,
+    lastModified: lastModified ? lastModified.toDate() : undefined,
+    summary: `${data.course} — ${data.topic}`,
+    description: description.join('\n'),
+    location: data.locationName,
+    geo: data.locationCoords,
+    status: data.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+  };
+};
+
+// POST /calendar/token -> { url, webcalUrl }; { rotate: true } invalidates the old link
+router.post('/token', requireAuth, async (req, res) => {
+  const existing = await feedsRef.where('userId', '==', req.user.uid).get();
+
+  if (!existing.empty && !req.body?.rotate) {
+    return res.status(200).json(feedUrls(req, existing.docs[0].id));
+  }
+
+  const token = crypto.randomBytes(24).toString('hex');
+  const batch = db.batch();
+  existing.docs.forEach((doc) => batch.delete(doc.ref));
+  batch.set(feedsRef.doc(token), {
+    userId: req.user.uid,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+
+  res.status(201).json(feedUrls(req, token));
+});
+
+// Public on purpose: calendar apps cannot send ID tokens, the secret token is the credential
+router.get('/:token.ics', async (req, res) => {
+  const feed = await feedsRef.doc(req.params.token).get();
+  if (!feed.exists) {
+    return res.status(404).json({ error: 'Calendar feed not found' });
+  }
+
+  const { userId } = feed.data();
+  const [created, joined] = await Promise.all([
+    sessionsRef.where('creatorId', '==', userId).get(),
+    sessionsRef.where('attendees', 'array-contains', userId).get(),
+  ]);
+
+  // Deduplicate sessions the user both created and joined
+  const docs = new Map();
+  [...created.docs, ...joined.docs].forEach((doc) => docs.set(doc.id, doc));
+
+  const cutoff = Date.now() - FEED_HISTORY_MS;
+  const events = [...docs.values()]
+    .filter((doc) => doc.data().startTime)
+    .map(toEvent)
+    .filter((event) => event.end.getTime() >= cutoff)
+    .sort((a, b) => a.start - b.start);
+
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Cache-Control', 'no-cache');
+  res.status(200).send(buildCalendar({ name: 'StudySync Sessions', events }));
+});
+
+module.exports = router;
@@ -0,0 +1,35 @@
+/* Invite links for unlisted and invite-only sessions.
+   GET /invites/<code> resolves a code to its sessions (every upcoming
+   occurrence when it belongs to a series) so the app can show them before
+   the caller joins with POST /sessions/:id/join { inviteCode }. */
+const express = require('express');
+const { db } = require('../firebase');
+const { serializeSession } = require('../models/session');
+const { requireAuth } = require('../middleware/auth');
+const { hasEnded } = require('../services/attendance');
+const { normalizeInviteCode } = require('../lib/invites');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/:code', async (req, res) => {
+  const code = normalizeInviteCode(req.params.code);
+  if (!code) {
+    return res.status(404).json({ error: 'This invite link is invalid or has expired' });
+  }
+
+  const snapshot = await db.collection('sessions').where('inviteCode', '==', code).get();
+  const now = Date.now();
+  const docs = snapshot.docs
+    .filter((doc) => doc.data().status !== 'cancelled' && !hasEnded(doc.data(), now))
+    .sort((a, b) => a.data().startTime.toMillis() - b.data().startTime.toMillis());
+  if (docs.length === 0) {
+    return res.status(404).json({ error: 'This invite link is invalid or has expired' });
+  }
+
+  // Whoever holds the code may pass it on
+  res.status(200).json({ sessions: docs.map((doc) => serializeSession(doc, { includeInviteCode: true })) });
+});
+
+module.exports = router;
@@ -0,0 +1,38 @@
+/* Stand-in for the Expo push API during local development.
+   Mounted at /mock-push when ENABLE_MOCK_PUSH=true; point the dispatcher at it
+   with EXPO_PUSH_URL=http://localhost:3000/mock-push/send. Messages are kept in
+   memory so you can inspect them with GET /mock-push/messages. Tokens that
+   contain "invalid" get a DeviceNotRegistered ticket, to exercise token cleanup. */
+const express = require('express');
+
+const router = express.Router();
+let received = [];
+
+// Same request/response shape as https://exp.host/--/api/v2/push/send
+router.post('/send', (req, res) => {
+  const messages = Array.isArray(req.body) ? req.body : [req.body];
+  const data = messages.map((message) => {
+    received.push({ ...message, receivedAt: new Date().toISOString() });
+    if (String(message.to).includes('invalid')) {
+      return {
+        status: 'error',
+        message: `"${message.to}" is not a registered push notification recipient`,
+        details: { error: 'DeviceNotRegistered' },
+      };
+    }
+    return { status: 'ok', id: `mock-${received.length}` };
+  });
+  console.log(`[mock-push] ${messages.length} message(s):`, messages.map((m) => `${m.to}: ${m.title}`).join('; '));
+  res.status(200).json({ data });
+});
+
+router.get('/messages', (req, res) => {
+  res.status(200).json({ messages: received });
+});
+
+router.delete('/messages', (req, res) => {
+  received = [];
+  res.status(204).send();
+});
+
+module.exports = router;
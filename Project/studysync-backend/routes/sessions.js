@@ -0,0 +1,469 @@
+/* REST routes for the Firestore "sessions" collection */
+const express = require('express');
+const { admin, db } = require('../firebase');
+const {
+  serializeSession,
+  parseSessionInput,
+  computeIsFull,
+  promoteFromWaitlist,
+  hasValidTimeRange,
+  toFirestoreUpdate,
+  describeSessionChanges,
+} = require('../models/session');
+const { requireAuth, canManageSession } = require('../middleware/auth');
+const {
+  joinSession,
+  leaveSession,
+  joinWaitlist,
+  leaveWaitlist,
+  markInterested,
+  unmarkInterested,
+  checkInDropIn,
+  leaveDropIn,
+  notifyPromoted,
+} = require('../services/attendance');
+const {
+  requestToJoin,
+  withdrawJoinRequest,
+  listJoinRequests,
+  decideJoinRequest,
+} = require('../services/joinRequests');
+const { notifyUsers, notifyNewSession } = require('../services/notifications');
+const { cancelSession } = require('../services/cancellation');
+const { SERIES_SCOPES, getFutureOccurrences } = require('../services/series');
+const { parseRecurrenceRule, expandRecurrence, shiftWallClock, wallClockDelta } = require('../lib/recurrence');
+const { addAuditEntry } = require('../services/audit');
+const { buildRoster } = require('../services/roster');
+const { rateSessionLocation } = require('../services/locationRatings');
+const { generateInviteCode, matchesInviteCode, isSessionMember } = require('../lib/invites');
+
+const router = express.Router();
+const sessionsRef = db.collection('sessions');
+
+// Every sessions route needs a signed-in caller
+router.use(requireAuth);
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+// Unlisted and invite-only sessions are visible to their members, hosts and staff
+const canSeePrivateSession = (user, session) => isSessionMember(session, user.uid) || canManageSession(user, session);
+
+const isPublic = (session) => (session.visibility || 'public') === 'public';
+
+// Members and hosts get the invite code so they can share the link
+const toResponse = (doc, user) =>
+  serializeSession(doc, { includeInviteCode: canSeePrivateSession(user, doc.data()) });
+
+// Same rule as the app's list view: hide after endTime, or 1 hour after start if no end
+const isUpcoming = (session, now) => {
+  if (session.endTime) {
+    return new Date(session.endTime).getTime() >= now;
+  }
+  return new Date(session.startTime).getTime() + ONE_HOUR_MS >= now;
+};
+
+// GET /sessions?course=CS%20124&creatorId=...&attendee=...&upcoming=true
+// Cancelled sessions are only returned when includeCancelled=true; unlisted
+// and invite-only sessions only to people who can already see them
+router.get('/', async (req, res) => {
+  const { course, creatorId, attendee, upcoming, includeCancelled } = req.query;
+
+  let query = sessionsRef;
+  if (course) query = query.where('course', '==', course);
+  if (creatorId) query = query.where('creatorId', '==', creatorId);
+  if (attendee) query = query.where('attendees', 'array-contains', attendee);
+
+  const snapshot = await query.get();
+  let sessions = snapshot.docs
+    .filter((doc) => isPublic(doc.data()) || canSeePrivateSession(req.user, doc.data()))
+    .map((doc) => toResponse(doc, req.user));
+  if (includeCancelled !== 'true') {
+    sessions = sessions.filter((s) => s.status !== 'cancelled');
+  }
+
+  if (upcoming === 'true') {
+    const now = Date.now();
+    sessions = sessions.filter((s) => isUpcoming(s, now));
+  }
+
+  sessions.sort((a, b) => new Date(a.startTime) - new Date(b.startTime));
+  res.status(200).json({ sessions });
+});
+
+// GET /sessions/:id?code=... — unlisted and invite-only sessions need their invite code.
+// Without it they look like they do not exist, so IDs cannot be probed.
+router.get('/:id', async (req, res) => {
+  const doc = await sessionsRef.doc(req.params.id).get();
+  if (!doc.exists) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  const data = doc.data();
+  if (!isPublic(data) && !canSeePrivateSession(req.user, data) && !matchesInviteCode(data, req.query.code)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  res.status(200).json({ session: toResponse(doc, req.user) });
+});
+
+// GET /sessions/:id/roster?code=... — names of the host, attendees, drop-ins and
+// "might come" users; same visibility rule as GET /sessions/:id
+router.get('/:id/roster', async (req, res) => {
+  const doc = await sessionsRef.doc(req.params.id).get();
+  if (!doc.exists) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  const data = doc.data();
+  if (!isPublic(data) && !canSeePrivateSession(req.user, data) && !matchesInviteCode(data, req.query.code)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  res.status(200).json(await buildRoster(data, req.user.uid));
+});
+
+// POST /sessions creates one session, or a weekly series when `recurrence` is given
+router.post('/', async (req, res) => {
+  // The creator is always the caller; the display name falls back to the token's profile
+  const body = {
+    ...req.body,
+    creatorId: req.user.uid,
+    creatorName: req.body?.creatorName || req.user.name || req.user.email || 'Anonymous',
+  };
+  const { fields, errors } = parseSessionInput(body);
+  let recurrence = null;
+  if (req.body?.recurrence != null) {
+    const { rule, error } = parseRecurrenceRule(req.body.recurrence);
+    if (error) errors.push(error);
+    recurrence = rule;
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join('; ') });
+  }
+  if (!hasValidTimeRange(fields.startTime, fields.endTime)) {
+    return res.status(400).json({ error: 'endTime must be after startTime' });
+  }
+
+  // Creator attends their own session (same as CreateSessionModal)
+  const attendees = [fields.creatorId];
+  const newSession = toFirestoreUpdate({
+    ...fields,
+    endTime: fields.endTime ?? null,
+    attendees,
+    isFull: computeIsFull(fields.capacity, attendees),
+  });
+
+  // Optional fields are simply left out on create
+  if (fields.locationDetails == null) delete newSession.locationDetails;
+  if (fields.capacity == null) delete newSession.capacity;
+  // One invite code for the whole series, so a single link covers every occurrence
+  if (fields.visibility !== 'public') newSession.inviteCode = generateInviteCode();
+  newSession.createdAt = admin.firestore.FieldValue.serverTimestamp();
+
+  if (!recurrence) {
+    const ref = await sessionsRef.add(newSession);
+    await notifyNewSession(newSession, [ref.id]);
+    const doc = await ref.get();
+    return res.status(201).json({ session: toResponse(doc, req.user) });
+  }
+
+  // One document per occurrence, linked by seriesId; each keeps the first one's duration
+  const { Timestamp } = admin.firestore;
+  const starts = expandRecurrence(fields.startTime.toDate(), recurrence);
+  const durationMs = fields.endTime ? fields.endTime.toMillis() - fields.startTime.toMillis() : null;
+  const seriesId = sessionsRef.doc().id;
+  const batch = db.batch();
+  const refs = starts.map((start, index) => {
+    const ref = sessionsRef.doc();
+    batch.set(ref, {
+      ...newSession,
+      startTime: Timestamp.fromDate(start),
+      endTime: durationMs ? Timestamp.fromMillis(start.getTime() + durationMs) : null,
+      seriesId,
+      seriesIndex: index,
+      recurrence,
+    });
+    return ref;
+  });
+  await batch.commit();
+  await notifyNewSession(newSession, refs.map((ref) => ref.id));
+
+  const docs = await db.getAll(...refs);
+  const sessions = docs.map((doc) => toResponse(doc, req.user));
+  res.status(201).json({ session: sessions[0], seriesId, sessions });
+});
+
+/**
+ * Work out one session's update for a PATCH. Returns `{ error, status }` when
+ * the edit is not allowed, otherwise the Firestore update plus who to notify.
+ */
+const planSessionUpdate = (current, fields, editorId) => {
+  const merged = { ...current, ...fields };
+  if (!hasValidTimeRange(merged.startTime, merged.endTime)) {
+    return { status: 400, error: 'endTime must be after startTime' };
+  }
+
+  // Lowering capacity never removes people who already joined
+  const currentAttendees = current.attendees || [];
+  if (fields.capacity != null && fields.capacity < currentAttendees.length) {
+    return {
+      status: 409,
+      error: `Capacity cannot be lower than the current attendee count (${currentAttendees.length})`,
+    };
+  }
+
+  // Raising (or removing) capacity promotes people from the waitlist
+  const queued = (current.waitlist || []).filter((uid) => !currentAttendees.includes(uid));
+  const { attendees, waitlist, promoted } = promoteFromWaitlist(merged.capacity, currentAttendees, queued);
+
+  return {
+    session: merged,
+    // revision feeds the iCalendar SEQUENCE so subscribed calendars pick up the change
+    update: {
+      ...toFirestoreUpdate(fields),
+      attendees,
+      waitlist,
+      isFull: computeIsFull(merged.capacity, attendees),
+      revision: admin.firestore.FieldValue.increment(1),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    promoted,
+    // Promoted users get their own message, and the editor knows what they changed
+    recipients: attendees.filter((uid) => !promoted.includes(uid) && uid !== editorId),
+    changes: describeSessionChanges(current, fields),
+  };
+};
+
+// A "future" edit moves later occurrences by the same wall-clock shift as the edited one
+const fieldsForOccurrence = (fields, anchor, occurrence) => {
+  const { Timestamp } = admin.firestore;
+  const result = { ...fields };
+  const anchorStart = anchor.startTime.toDate();
+  const newAnchorStart = fields.startTime ? fields.startTime.toDate() : anchorStart;
+  const occurrenceStart = fields.startTime
+    ? shiftWallClock(occurrence.startTime.toDate(), wallClockDelta(anchorStart, newAnchorStart))
+    : occurrence.startTime.toDate();
+  if (fields.startTime) result.startTime = Timestamp.fromDate(occurrenceStart);
+  if (fields.endTime) {
+    const durationMs = fields.endTime.toMillis() - newAnchorStart.getTime();
+    result.endTime = Timestamp.fromMillis(occurrenceStart.getTime() + durationMs);
+  }
+  return result;
+};
+
+// PATCH /sessions/:id { ...fields, scope?: 'this' | 'future' }
+// scope "future" applies the edit to this and every later occurrence of its series
+router.patch('/:id', async (req, res) => {
+  const { fields, errors } = parseSessionInput(req.body, { partial: true });
+  const scope = req.body?.scope ?? 'this';
+  if (!SERIES_SCOPES.includes(scope)) {
+    errors.push(`scope must be one of: ${SERIES_SCOPES.join(', ')}`);
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join('; ') });
+  }
+  if (fields.creatorId !== undefined) {
+    return res.status(400).json({ error: 'creatorId cannot be changed' });
+  }
+
+  const sessionRef = sessionsRef.doc(req.params.id);
+
+  // Read-modify-write in a transaction so isFull stays consistent with attendees/capacity
+  const result = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(sessionRef);
+    if (!doc.exists) {
+      return { status: 404, error: 'Session not found' };
+    }
+
+    const current = doc.data();
+    if (!canManageSession(req.user, current)) {
+      return { status: 403, error: 'Only the host can edit this session' };
+    }
+    if (current.status === 'cancelled') {
+      return { status: 409, error: 'Cancelled sessions cannot be edited' };
+    }
+
+    const targets = scope === 'future' && current.seriesId
+      ? await getFutureOccurrences(transaction, current)
+      : [doc];
+
+    // Going unlisted or invite-only needs an invite code; edited occurrences share one
+    const editFields = fields.visibility && fields.visibility !== 'public' && !current.inviteCode
+      ? { ...fields, inviteCode: generateInviteCode() }
+      : fields;
+
+    // Plan every occurrence before writing anything, so one bad occurrence rejects the whole edit
+    const plans = [];
+    for (const target of targets) {
+      const targetFields = target.id === doc.id ? editFields : fieldsForOccurrence(editFields, current, target.data());
+      const plan = planSessionUpdate(target.data(), targetFields, req.user.uid);
+      if (plan.error) return plan;
+      plans.push({ id: target.id, ref: target.ref, ...plan });
+    }
+
+    plans.forEach((plan) => {
+      transaction.update(plan.ref, plan.update);
+      addAuditEntry(transaction, plan.ref, {
+        action: 'updated',
+        actorId: req.user.uid,
+        changes: plan.changes,
+        reason: scope === 'future' ? 'Edited with all future occurrences' : undefined,
+      });
+    });
+    return { status: 200, plans };
+  });
+
+  if (result.error) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  for (const plan of result.plans) {
+    await notifyPromoted(plan.id, plan.session, plan.promoted);
+  }
+
+  // One message per person, described by the edited occurrence
+  const edited = result.plans.find((plan) => plan.id === req.params.id);
+  if (edited.changes.length > 0) {
+    const extra = result.plans.length > 1 ? ` (applies to ${result.plans.length} sessions in this series)` : '';
+    await notifyUsers(result.plans.flatMap((plan) => plan.recipients), {
+      type: 'session_updated',
+      sessionId: req.params.id,
+      title: `${edited.session.course} session updated`,
+      body: `${edited.session.topic}: ${edited.changes.join('. ')}${extra}.`,
+    });
+  }
+  const doc = await sessionRef.get();
+  res.status(200).json({ session: toResponse(doc, req.user), updatedCount: result.plans.length });
+});
+
+// POST /sessions/:id/invite rotates the invite code of an unlisted or invite-only
+// session (and the rest of its series); links with the old code stop working
+router.post('/:id/invite', async (req, res) => {
+  const sessionRef = sessionsRef.doc(req.params.id);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(sessionRef);
+    if (!doc.exists) {
+      return { status: 404, error: 'Session not found' };
+    }
+    const current = doc.data();
+    if (!canManageSession(req.user, current)) {
+      return { status: 403, error: 'Only the host can change the invite link' };
+    }
+    if (isPublic(current)) {
+      return { status: 409, error: 'Public sessions do not have an invite link' };
+    }
+
+    const targets = current.seriesId
+      ? (await transaction.get(sessionsRef.where('seriesId', '==', current.seriesId))).docs
+      : [doc];
+    const inviteCode = generateInviteCode();
+    targets
+      .filter((target) => target.data().inviteCode === current.inviteCode)
+      .forEach((target) => {
+        transaction.update(target.ref, { inviteCode, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+        addAuditEntry(transaction, target.ref, { action: 'invite_rotated', actorId: req.user.uid });
+      });
+    return { status: 200, inviteCode };
+  });
+
+  if (result.error) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  res.status(200).json({ inviteCode: result.inviteCode });
+});
+
+// Soft delete: POST /sessions/:id/cancel { reason, scope? } keeps the document for history
+router.post('/:id/cancel', async (req, res) => {
+  const result = await cancelSession(req.params.id, req.user, req.body?.reason, req.body?.scope);
+  res.status(200).json(result);
+});
+
+router.delete('/:id', async (req, res) => {
+  const sessionRef = sessionsRef.doc(req.params.id);
+  const doc = await sessionRef.get();
+  if (!doc.exists) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  if (!canManageSession(req.user, doc.data())) {
+    return res.status(403).json({ error: 'Only the host can delete this session' });
+  }
+  await sessionRef.delete();
+  res.status(204).send();
+});
+
+// Join/leave always act on the caller; capacity and dedup are checked in a transaction.
+// Invite-only sessions need { inviteCode } in the body.
+router.post('/:id/join', async (req, res) => {
+  const result = await joinSession(req.params.id, req.user.uid, req.body?.inviteCode);
+  res.status(200).json(result);
+});
+
+router.post('/:id/leave', async (req, res) => {
+  const result = await leaveSession(req.params.id, req.user.uid);
+  res.status(200).json(result);
+});
+
+// Waitlist for full sessions; leaving a session promotes the first person in line
+router.post('/:id/waitlist', async (req, res) => {
+  const result = await joinWaitlist(req.params.id, req.user.uid, req.body?.inviteCode);
+  res.status(200).json(result);
+});
+
+router.delete('/:id/waitlist', async (req, res) => {
+  const result = await leaveWaitlist(req.params.id, req.user.uid);
+  res.status(200).json(result);
+});
+
+// "I might come" on open sessions; takes no spot
+router.post('/:id/interest', async (req, res) => {
+  const result = await markInterested(req.params.id, req.user.uid, req.body?.inviteCode);
+  res.status(200).json(result);
+});
+
+router.delete('/:id/interest', async (req, res) => {
+  const result = await unmarkInterested(req.params.id, req.user.uid);
+  res.status(200).json(result);
+});
+
+// Drop-in check-in for preferred sessions, counted apart from RSVPs
+router.post('/:id/drop-in', async (req, res) => {
+  const result = await checkInDropIn(req.params.id, req.user.uid, req.body?.inviteCode);
+  res.status(200).json(result);
+});
+
+router.delete('/:id/drop-in', async (req, res) => {
+  const result = await leaveDropIn(req.params.id, req.user.uid);
+  res.status(200).json(result);
+});
+
+// Attendees rate the session's spot after it ends; also records their feedback:
+// POST /sessions/:id/rating { rating, reviewText?, attributes?, amenities? }
+router.post('/:id/rating', async (req, res) => {
+  const { rating, reviewText, attributes, amenities } = req.body ?? {};
+  const result = await rateSessionLocation(req.params.id, req.user, rating, reviewText, { attributes, amenities });
+  res.status(200).json(result);
+});
+
+// Host approval for "required" sessions: POST /sessions/:id/requests { note?, inviteCode? }
+router.post('/:id/requests', async (req, res) => {
+  const result = await requestToJoin(req.params.id, req.user, req.body?.note, req.body?.inviteCode);
+  res.status(201).json(result);
+});
+
+router.delete('/:id/requests', async (req, res) => {
+  const result = await withdrawJoinRequest(req.params.id, req.user.uid);
+  res.status(200).json(result);
+});
+
+router.get('/:id/requests', async (req, res) => {
+  const requests = await listJoinRequests(req.params.id, req.user);
+  res.status(200).json({ requests });
+});
+
+router.post('/:id/requests/:uid/approve', async (req, res) => {
+  const result = await decideJoinRequest(req.params.id, req.params.uid, req.user, true);
+  res.status(200).json(result);
+});
+
+router.post('/:id/requests/:uid/decline', async (req, res) => {
+  const result = await decideJoinRequest(req.params.id, req.params.uid, req.user, false);
+  res.status(200).json(result);
+});
+
+module.exports = router;
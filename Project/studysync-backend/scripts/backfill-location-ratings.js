@@ -0,0 +1,122 @@
+/* Copy session feedback into the per-spot locationRatings reviews. Feedback
+   used to be written only to `feedbacks`; POST /sessions/:id/rating now
+   writes both in one transaction. Each user keeps one rating
+   per spot, their latest; reviews already in locationRatings win when newer.
+   Run scripts/migrate-location-reviews.js first if any location still embeds
+   a `ratings` array.
+   Usage (from Project/studysync-backend):
+     node scripts/backfill-location-ratings.js            # update Firestore
+     node scripts/backfill-location-ratings.js --dry-run  # only count what would change */
+const { parseArgs } = require('util');
+const { admin, db } = require('../firebase');
+const { generateLocationId } = require('../lib/locations');
+const { recountLocationRatings, reviewRef } = require('../services/locationRatings');
+
+// Firestore batches hold at most 500 writes; getAll is chunked the same way
+const BATCH_LIMIT = 500;
+
+const { values } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+function hasCoords(coords) {
+  return coords && (coords.latitude !== 0 || coords.longitude !== 0);
+}
+
+function millis(timestamp) {
+  return timestamp && typeof timestamp.toMillis === 'function' ? timestamp.toMillis() : 0;
+}
+
+async function getAllById(collection, ids) {
+  const byId = new Map();
+  for (let i = 0; i < ids.length; i += BATCH_LIMIT) {
+    const refs = ids.slice(i, i + BATCH_LIMIT).map((id) => db.collection(collection).doc(id));
+    if (refs.length === 0) continue;
+    const docs = await db.getAll(...refs);
+    docs.forEach((doc) => {
+      if (doc.exists) byId.set(doc.id, doc.data());
+    });
+  }
+  return byId;
+}
+
+async function backfillLocationRatings() {
+  const feedbackSnap = await db.collection('feedbacks').get();
+  const feedbacks = feedbackSnap.docs.map((doc) => doc.data())
+    .filter((f) => typeof f.sessionId === 'string' && typeof f.userId === 'string');
+
+  const sessions = await getAllById('sessions', [...new Set(feedbacks.map((f) => f.sessionId))]);
+  const users = await getAllById('users', [...new Set(feedbacks.map((f) => f.userId))]);
+
+  // locationId -> { locationName, locationCoords, ratings: Map<userId, entry> }
+  const locations = new Map();
+  let skipped = 0;
+  feedbacks.forEach((f) => {
+    const session = sessions.get(f.sessionId);
+    if (!session || !session.locationName || !hasCoords(session.locationCoords)) {
+      skipped += 1;
+      return;
+    }
+    const locationId = generateLocationId(undefined, session.locationName, session.locationCoords);
+    if (!locations.has(locationId)) {
+      locations.set(locationId, {
+        locationName: session.locationName,
+        locationCoords: session.locationCoords,
+        ratings: new Map(),
+      });
+    }
+    const { ratings } = locations.get(locationId);
+    const previous = ratings.get(f.userId);
+    if (previous && millis(previous.timestamp) >= millis(f.createdAt)) return;
+    ratings.set(f.userId, {
+      userId: f.userId,
+      userName: users.get(f.userId)?.displayName || 'Student',
+      rating: f.rating,
+      reviewText: f.comment || '',
+      timestamp: f.createdAt || admin.firestore.Timestamp.now(),
+      lastSessionId: f.sessionId,
+    });
+  });
+  console.log(`${feedbacks.length} feedback entries for ${locations.size} spots (${skipped} without a location)`);
+
+  // Keep only entries newer than the review already stored for that person
+  const updates = [];
+  for (const [locationId, location] of locations) {
+    const locationRef = db.collection('locationRatings').doc(locationId);
+    const entries = [...location.ratings.values()];
+    const existing = await db.getAll(...entries.map((entry) => reviewRef(locationRef, entry.userId)));
+    const newer = entries.filter((entry, index) =>
+      !existing[index].exists || millis(existing[index].data().timestamp) < millis(entry.timestamp));
+    if (newer.length > 0) updates.push({ locationId, locationRef, location, newer });
+  }
+  const reviewCount = updates.reduce((sum, update) => sum + update.newer.length, 0);
+  console.log(`${reviewCount} reviews for ${updates.length} spots need writing`);
+  if (values['dry-run'] || updates.length === 0) return;
+
+  for (const { locationId, locationRef, location, newer } of updates) {
+    for (let i = 0; i < newer.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+      newer.slice(i, i + BATCH_LIMIT).forEach((entry) => batch.set(reviewRef(locationRef, entry.userId), entry));
+      await batch.commit();
+    }
+    // Name and coordinates only fill in new spots; merge keeps existing ones
+    const current = await locationRef.get();
+    await locationRef.set({
+      ...(current.exists ? {} : {
+        locationId,
+        locationName: location.locationName,
+        locationCoords: location.locationCoords,
+        placeId: null,
+      }),
+      ...await recountLocationRatings(locationRef),
+    }, { merge: true });
+  }
+  console.log(`Wrote ${reviewCount} reviews for ${updates.length} spots`);
+}
+
+backfillLocationRatings().then(() => process.exit(0)).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
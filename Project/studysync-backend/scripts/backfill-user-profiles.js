@@ -0,0 +1,62 @@
+/* Create users/{uid} profiles for accounts that signed up before profiles
+   existed, from their Firebase Auth display name and email. The app also
+   creates a missing profile at sign-in (utils/userProfile.ts); this covers
+   people who have not opened it since. Existing fields are kept.
+   Usage (from Project/studysync-backend):
+     node scripts/backfill-user-profiles.js            # update Firestore
+     node scripts/backfill-user-profiles.js --dry-run  # only count what would change */
+const { parseArgs } = require('util');
+const { admin, db } = require('../firebase');
+
+// Firestore batches hold at most 500 writes; listUsers pages hold at most 1000
+const BATCH_LIMIT = 500;
+
+const { values } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+async function listAllAuthUsers() {
+  const users = [];
+  let pageToken;
+  do {
+    const page = await admin.auth().listUsers(1000, pageToken);
+    users.push(...page.users);
+    pageToken = page.pageToken;
+  } while (pageToken);
+  return users;
+}
+
+async function backfillUserProfiles() {
+  const authUsers = await listAllAuthUsers();
+  const missing = [];
+  for (let i = 0; i < authUsers.length; i += BATCH_LIMIT) {
+    const chunk = authUsers.slice(i, i + BATCH_LIMIT);
+    const docs = await db.getAll(...chunk.map((user) => db.collection('users').doc(user.uid)));
+    docs.forEach((doc, index) => {
+      if (!doc.exists || !doc.data().displayName) missing.push(chunk[index]);
+    });
+  }
+  console.log(`${missing.length} of ${authUsers.length} accounts have no profile`);
+  if (values['dry-run'] || missing.length === 0) return;
+
+  for (let i = 0; i < missing.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    missing.slice(i, i + BATCH_LIMIT).forEach((user) => {
+      batch.set(db.collection('users').doc(user.uid), {
+        uid: user.uid,
+        email: user.email ?? null,
+        displayName: user.displayName || (user.email ? user.email.split('@')[0] : 'Student'),
+        createdAt: admin.firestore.Timestamp.fromDate(new Date(user.metadata.creationTime)),
+      }, { merge: true });
+    });
+    await batch.commit();
+  }
+  console.log(`Created ${missing.length} profiles`);
+}
+
+backfillUserProfiles().then(() => process.exit(0)).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+/* Give sessions created before visibility existed `visibility: 'public'`.
+   The app lists sessions with where('visibility', '==', 'public'), which
+   skips documents that lack the field.
+   Usage (from Project/studysync-backend):
+     node scripts/backfill-visibility.js            # update Firestore
+     node scripts/backfill-visibility.js --dry-run  # only count what would change */
+const { parseArgs } = require('util');
+const { db } = require('../firebase');
+
+// Firestore batches hold at most 500 writes
+const BATCH_LIMIT = 500;
+
+const { values } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+async function backfillVisibility() {
+  const snapshot = await db.collection('sessions').get();
+  const missing = snapshot.docs.filter((doc) => doc.data().visibility === undefined);
+  console.log(`${missing.length} of ${snapshot.size} sessions have no visibility`);
+  if (values['dry-run'] || missing.length === 0) return;
+
+  for (let i = 0; i < missing.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    missing.slice(i, i + BATCH_LIMIT).forEach((doc) => batch.update(doc.ref, { visibility: 'public' }));
+    await batch.commit();
+  }
+  console.log(`Marked ${missing.length} sessions public`);
+}
+
+backfillVisibility().then(() => process.exit(0)).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
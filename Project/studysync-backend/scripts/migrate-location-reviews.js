@@ -0,0 +1,84 @@
+/* Move the embedded `ratings` array of each locationRatings document into its
+   reviews subcollection (locationRatings/{id}/reviews/{uid}) and rebuild
+   `averageRating`, `totalRatings` and `ratingCounts` from those reviews.
+   A review already in the subcollection wins when it is newer. Safe to re-run:
+   documents without a `ratings` array are skipped.
+   Usage (from Project/studysync-backend):
+     node scripts/migrate-location-reviews.js            # update Firestore
+     node scripts/migrate-location-reviews.js --dry-run  # only count what would change */
+const { parseArgs } = require('util');
+const { admin, db } = require('../firebase');
+const { recountLocationRatings, reviewRef } = require('../services/locationRatings');
+
+// Firestore batches hold at most 500 writes
+const BATCH_LIMIT = 500;
+
+const { values } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+function millis(timestamp) {
+  return timestamp && typeof timestamp.toMillis === 'function' ? timestamp.toMillis() : 0;
+}
+
+async function migrateLocation(doc) {
+  // Latest entry per user (the array should already hold one each)
+  const latest = new Map();
+  doc.data().ratings.forEach((entry) => {
+    if (!entry || typeof entry.userId !== 'string') return;
+    const previous = latest.get(entry.userId);
+    if (!previous || millis(entry.timestamp) > millis(previous.timestamp)) latest.set(entry.userId, entry);
+  });
+
+  const entries = [...latest.values()];
+  const existing = [];
+  for (let i = 0; i < entries.length; i += BATCH_LIMIT) {
+    const refs = entries.slice(i, i + BATCH_LIMIT).map((entry) => reviewRef(doc.ref, entry.userId));
+    existing.push(...await db.getAll(...refs));
+  }
+  const toWrite = entries.filter((entry, index) =>
+    !existing[index].exists || millis(existing[index].data().timestamp) < millis(entry.timestamp));
+  if (values['dry-run']) return toWrite.length;
+
+  for (let i = 0; i < toWrite.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    toWrite.slice(i, i + BATCH_LIMIT).forEach((entry) => {
+      batch.set(reviewRef(doc.ref, entry.userId), {
+        userId: entry.userId,
+        userName: entry.userName || 'Student',
+        rating: entry.rating,
+        reviewText: entry.reviewText || '',
+        timestamp: entry.timestamp || admin.firestore.Timestamp.now(),
+        lastSessionId: entry.lastSessionId || null,
+      });
+    });
+    await batch.commit();
+  }
+
+  await doc.ref.update({
+    ...await recountLocationRatings(doc.ref),
+    ratings: admin.firestore.FieldValue.delete(),
+  });
+  return toWrite.length;
+}
+
+async function migrateLocationReviews() {
+  const snapshot = await db.collection('locationRatings').get();
+  const legacy = snapshot.docs.filter((doc) => Array.isArray(doc.data().ratings));
+  console.log(`${legacy.length} of ${snapshot.size} locations still embed their ratings`);
+
+  let reviews = 0;
+  for (const doc of legacy) {
+    reviews += await migrateLocation(doc);
+  }
+  console.log(values['dry-run']
+    ? `${reviews} reviews would be written`
+    : `Moved ${reviews} reviews for ${legacy.length} locations`);
+}
+
+migrateLocationReviews().then(() => process.exit(0)).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,76 +1,402 @@
-/* Seed sample sessions into Firestore using firebase-admin */
-const admin = require('firebase-admin');
+/* Seed realistic demo data into Firestore using firebase-admin.
+   Populates "sessions", "feedbacks" and "locationRatings" consistently:
+   past sessions get feedback from their attendees, and each location's
+   rating aggregate is built from exactly those feedbacks.
+
+   Usage (from Project/studysync-backend):
+     npm run seed -- --count 30 --from-days -7 --to-days 21
+     npm run seed -- --clear --count 0          # only remove previously seeded data
+     npm run seed -- --help
+
+   Every seeded document carries `seeded: true`, so --clear never touches real data.
+   A seeded location that has since been rated for real keeps those reviews and
+   is recounted from them instead of being deleted.
+   Against the local emulators (USE_FIREBASE_EMULATORS=true) it also creates Auth
+   accounts for the fake students, so you can sign in as seed-user-N@studysync.test. */
+const fs = require('fs');
 const path = require('path');
+const { parseArgs } = require('util');
+const { admin, db, useEmulators } = require('../firebase');
+const { generateLocationId, summarizeRatingCounts, readAggregates, applyReview } = require('../lib/locations');
+const { recountLocationRatings } = require('../services/locationRatings');
+
+const { Timestamp } = admin.firestore;
 
-const serviceAccount = require(path.join(__dirname, '..', 'serviceAccountKey.json'));
+const HELP = `Options:
+  --count <n>            sessions to create (default 20)
+  --from-days <n>        window start, days relative to now; negative = past (default -7)
+  --to-days <n>          window end, days relative to now (default 14)
+  --courses <list>       comma-separated course codes (default "CS 124,CS 173,CS 225,MATH 221,MATH 241,PHYS 211")
+  --buildings <file>     JSON list of { name, coords: { latitude, longitude }, details: [] }
+                         (default scripts/data/campus-buildings.json)
+  --users <n>            size of the fake student pool (default 12)
+  --fill-min <0-1>       minimum fraction of capacity taken by attendees (default 0.2)
+  --fill-max <0-1>       maximum fraction of capacity taken by attendees (default 1)
+  --ratings <weights>    star weights for feedback, "1:w,2:w,3:w,4:w,5:w" (default "1:1,2:1,3:2,4:4,5:3")
+  --feedback-rate <0-1>  chance each attendee of a past session leaves feedback (default 0.7)
+  --seed <n>             random seed for reproducible data (default: random)
+  --clear                delete previously seeded documents before seeding
+  --help                 show this message`;
 
-admin.initializeApp({
-  credential: admin.credential.cert(serviceAccount),
+const { values: options } = parseArgs({
+  options: {
+    count: { type: 'string', default: '20' },
+    'from-days': { type: 'string', default: '-7' },
+    'to-days': { type: 'string', default: '14' },
+    courses: { type: 'string', default: 'CS 124,CS 173,CS 225,MATH 221,MATH 241,PHYS 211' },
+    buildings: { type: 'string', default: path.join(__dirname, 'data', 'campus-buildings.json') },
+    users: { type: 'string', default: '12' },
+    'fill-min': { type: 'string', default: '0.2' },
+    'fill-max': { type: 'string', default: '1' },
+    ratings: { type: 'string', default: '1:1,2:1,3:2,4:4,5:3' },
+    'feedback-rate': { type: 'string', default: '0.7' },
+    seed: { type: 'string' },
+    clear: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
 });
 
-const db = admin.firestore();
+const SEEDED_COLLECTIONS = ['sessions', 'feedbacks', 'locationRatings'];
+// Subcollections cleared along with their seeded parent document, and how to
+// rebuild the parent when non-seeded children remain
+const SEEDED_SUBCOLLECTIONS = {
+  locationRatings: { name: 'reviews', recount: recountLocationRatings },
+};
+// Firestore batches hold at most 500 writes
+const BATCH_LIMIT = 500;
+const MINUTE_MS = 60 * 1000;
+const EMULATOR_PASSWORD = 'password123';
+const DAY_MS = 24 * 60 * MINUTE_MS;
 
-async function seed() {
-  const sessions = [
-    {
-      creatorId: 'seed-user',
-      creatorName: 'StudySync Bot',
-      course: 'CS 173',
-      topic: 'Induction Practice',
-      locationName: 'Siebel 1404',
-      locationDetails: 'Back row',
-      locationCoords: { latitude: 40.1138, longitude: -88.2249 },
-      startTime: admin.firestore.Timestamp.fromDate(new Date('2025-10-21T23:00:00Z')),
-      endTime: admin.firestore.Timestamp.fromDate(new Date('2025-10-22T00:15:00Z')),
-      signupPolicy: 'preferred',
-      capacity: 3,  // Changed to 3 for testing
-      attendees: ['fake-user-1'],  // Pre-filled with 1 fake user
-      isFull: false,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    },
-    {
-      creatorId: 'seed-user',
-      creatorName: 'StudySync Bot',
-      course: 'CS 374',
-      topic: 'Graphs + Cuts Review',
-      locationName: 'Grainger 100',
-      locationDetails: '1st floor study area',
-      locationCoords: { latitude: 40.1120, longitude: -88.2263 },
-      startTime: admin.firestore.Timestamp.fromDate(new Date('2025-10-22T22:30:00Z')),
-      endTime: admin.firestore.Timestamp.fromDate(new Date('2025-10-23T00:00:00Z')),
-      signupPolicy: 'required',
-      capacity: 2,  // Changed to 2 for testing
-      attendees: ['fake-user-1', 'fake-user-2'],  // Completely full
-      isFull: true,  // Mark as full
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    },
-    {
-      creatorId: 'seed-user',
-      creatorName: 'StudySync Bot',
-      course: 'MATH 241',
-      topic: 'Triple Integrals',
-      locationName: 'Altgeld 314',
-      locationCoords: { latitude: 40.1091, longitude: -88.2273 },
-      startTime: admin.firestore.Timestamp.fromDate(new Date('2025-10-23T20:00:00Z')),
-      endTime: null,
-      signupPolicy: 'open',
-      attendees: [],
-      isFull: false,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    },
-  ];
-
-  const batch = db.batch();
-  const col = db.collection('sessions');
-  sessions.forEach((s) => {
-    const ref = col.doc(); // auto-id
-    batch.set(ref, s);
+const TOPICS = [
+  'Midterm Prep', 'Homework Review', 'Quiz Prep', 'Practice Problems',
+  'Final Exam Review', 'Lecture Recap', 'Project Work Session', 'Office Hours Overflow',
+];
+const NAMES = [
+  'Alex Kim', 'Priya Patel', 'Jordan Lee', 'Sam Rivera', 'Taylor Nguyen', 'Chris Johnson',
+  'Morgan Chen', 'Riley Davis', 'Casey Brown', 'Jamie Garcia', 'Avery Wilson', 'Drew Martinez',
+];
+const COMMENTS = [
+  'Quiet and plenty of outlets.', 'Hard to find a table at peak hours.', 'Great spot for group work.',
+  'Wi-Fi was spotty.', 'Comfortable seating, would come back.', 'A bit noisy but fine for a review.',
+];
+
+// Small seeded PRNG (mulberry32) so --seed reproduces the same data
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const parseNumber = (name, { min = -Infinity, max = Infinity, integer = false } = {}) => {
+  const value = Number(options[name]);
+  if (Number.isNaN(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new Error(`--${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+  }
+  return value;
+};
+
+// "1:1,2:1,3:2,4:4,5:3" -> [{ value: 1, weight: 1 }, ...]
+const parseRatingWeights = (spec) => {
+  const weights = spec.split(',').map((pair) => {
+    const [star, weight] = pair.split(':').map(Number);
+    if (!Number.isInteger(star) || star < 1 || star > 5 || Number.isNaN(weight) || weight < 0) {
+      throw new Error(`Invalid --ratings entry "${pair}" (expected star:weight, star 1-5)`);
+    }
+    return { value: star, weight };
+  });
+  if (weights.every((w) => w.weight === 0)) {
+    throw new Error('--ratings needs at least one positive weight');
+  }
+  return weights;
+};
+
+const loadBuildings = (file) => {
+  const buildings = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(buildings) || buildings.length === 0) {
+    throw new Error(`${file} must contain a non-empty JSON array`);
+  }
+  buildings.forEach((b) => {
+    if (!b.name || typeof b.coords?.latitude !== 'number' || typeof b.coords?.longitude !== 'number') {
+      throw new Error(`Building entries need a name and numeric coords: ${JSON.stringify(b)}`);
+    }
+  });
+  return buildings;
+};
+
+const readConfig = () => {
+  const fromDays = parseNumber('from-days');
+  const toDays = parseNumber('to-days');
+  if (toDays <= fromDays) {
+    throw new Error('--to-days must be greater than --from-days');
+  }
+  const fillMin = parseNumber('fill-min', { min: 0, max: 1 });
+  const fillMax = parseNumber('fill-max', { min: 0, max: 1 });
+  if (fillMax < fillMin) {
+    throw new Error('--fill-max must be at least --fill-min');
+  }
+  const courses = options.courses.split(',').map((c) => c.trim()).filter(Boolean);
+  if (courses.length === 0) {
+    throw new Error('--courses needs at least one course');
+  }
+
+  return {
+    count: parseNumber('count', { min: 0, integer: true }),
+    fromDays,
+    toDays,
+    courses,
+    buildings: loadBuildings(options.buildings),
+    userCount: parseNumber('users', { min: 1, integer: true }),
+    fillMin,
+    fillMax,
+    ratingWeights: parseRatingWeights(options.ratings),
+    feedbackRate: parseNumber('feedback-rate', { min: 0, max: 1 }),
+    seed: options.seed !== undefined ? parseNumber('seed', { integer: true }) : Date.now(),
+  };
+};
+
+// Commit writes in chunks that fit in a batch
+const commitInChunks = async (writes) => {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_LIMIT).forEach((write) => write(batch));
+    await batch.commit();
+  }
+};
+
+async function clearSeeded() {
+  for (const name of SEEDED_COLLECTIONS) {
+    const snapshot = await db.collection(name).where('seeded', '==', true).get();
+    const sub = SEEDED_SUBCOLLECTIONS[name];
+    const kept = new Set();
+    if (sub) {
+      for (const doc of snapshot.docs) {
+        // Children written later through the API (e.g. real reviews) have no seeded flag
+        const children = await doc.ref.collection(sub.name).get();
+        const seededChildren = children.docs.filter((child) => child.data().seeded === true);
+        await commitInChunks(seededChildren.map((child) => (batch) => batch.delete(child.ref)));
+        if (seededChildren.length < children.size) kept.add(doc.id);
+      }
+    }
+
+    // Parents with real children stay, rebuilt from those children and no longer marked seeded
+    for (const doc of snapshot.docs.filter((d) => kept.has(d.id))) {
+      await doc.ref.update({
+        ...await sub.recount(doc.ref),
+        seeded: admin.firestore.FieldValue.delete(),
+      });
+    }
+    const removed = snapshot.docs.filter((doc) => !kept.has(doc.id));
+    await commitInChunks(removed.map((doc) => (batch) => batch.delete(doc.ref)));
+    console.log(`Removed ${removed.length} seeded ${name} documents` +
+      (kept.size > 0 ? ` (kept ${kept.size} with non-seeded ${sub.name}, recounted).` : '.'));
+  }
+}
+
+function generate(config) {
+  const random = createRandom(config.seed);
+  const pick = (list) => list[Math.floor(random() * list.length)];
+  const randomInt = (min, max) => min + Math.floor(random() * (max - min + 1));
+  const pickWeighted = (weights) => {
+    const total = weights.reduce((sum, w) => sum + w.weight, 0);
+    let roll = random() * total;
+    for (const w of weights) {
+      roll -= w.weight;
+      if (roll < 0) return w.value;
+    }
+    return weights[weights.length - 1].value;
+  };
+  const shuffle = (list) => {
+    const copy = [...list];
+    for (let i = copy.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+  };
+
+  const users = Array.from({ length: config.userCount }, (_, i) => ({
+    uid: `seed-user-${i + 1}`,
+    name: NAMES[i % NAMES.length] + (i >= NAMES.length ? ` ${Math.floor(i / NAMES.length) + 1}` : ''),
+  }));
+  const userName = (uid) => users.find((u) => u.uid === uid)?.name || 'StudySync Student';
+
+  const now = Date.now();
+  const windowStart = now + config.fromDays * DAY_MS;
+  const windowMs = (config.toDays - config.fromDays) * DAY_MS;
+
+  const sessions = [];
+  const feedbacks = [];
+
+  for (let i = 0; i < config.count; i++) {
+    const building = pick(config.buildings);
+    const creator = pick(users);
+
+    // Random day in the window, starting between 9:00 and 21:00 on a 15-minute mark
+    const day = new Date(windowStart + random() * windowMs);
+    day.setHours(randomInt(9, 20), pick([0, 15, 30, 45]), 0, 0);
+    const start = day;
+    // About 1 in 10 sessions has no end time (exercises the "Ongoing" UI)
+    const end = random() < 0.1 ? null : new Date(start.getTime() + randomInt(4, 12) * 15 * MINUTE_MS);
+
+    const signupPolicy = pickWeighted([
+      { value: 'open', weight: 3 },
+      { value: 'preferred', weight: 2 },
+      { value: 'required', weight: 2 },
+    ]);
+    const capacity = signupPolicy === 'open' && random() < 0.5 ? undefined : randomInt(3, 10);
+
+    // Creator attends; fill the rest according to the fill range
+    const others = shuffle(users.filter((u) => u.uid !== creator.uid)).map((u) => u.uid);
+    const spots = capacity ?? randomInt(2, 8);
+    const fill = config.fillMin + random() * (config.fillMax - config.fillMin);
+    const attendeeCount = Math.min(Math.max(1, Math.round(spots * fill)), spots, others.length + 1);
+    const attendees = [creator.uid, ...others.slice(0, attendeeCount - 1)];
+    const isFull = capacity ? attendees.length >= capacity : false;
+    // Some full sessions get a short waitlist
+    const waitlist = isFull && random() < 0.3 ? others.slice(attendeeCount - 1, attendeeCount + 1) : [];
+
+    const session = {
+      ref: db.collection('sessions').doc(),
+      data: {
+        creatorId: creator.uid,
+        creatorName: creator.name,
+        course: pick(config.courses),
+        topic: pick(TOPICS),
+        locationName: building.name,
+        locationCoords: building.coords,
+        startTime: Timestamp.fromDate(start),
+        endTime: end ? Timestamp.fromDate(end) : null,
+        signupPolicy,
+        visibility: 'public',
+        attendees,
+        waitlist,
+        isFull,
+        createdAt: Timestamp.fromDate(new Date(Math.min(now, start.getTime()) - randomInt(1, 72) * 60 * MINUTE_MS)),
+        seeded: true,
+      },
+    };
+    if (building.details?.length) session.data.locationDetails = pick(building.details);
+    if (capacity) session.data.capacity = capacity;
+    sessions.push(session);
+
+    // Feedback only for sessions that are over (same 1-hour rule as the app for no end time)
+    const endedAt = end ? end.getTime() : start.getTime() + 60 * MINUTE_MS;
+    if (endedAt < now) {
+      attendees.forEach((uid) => {
+        if (random() >= config.feedbackRate) return;
+        const rating = pickWeighted(config.ratingWeights);
+        const feedback = {
+          sessionId: session.ref.id,
+          userId: uid,
+          locationName: building.name,
+          rating,
+          createdAt: Timestamp.fromDate(new Date(Math.min(now, endedAt + randomInt(1, 24) * 60 * MINUTE_MS))),
+          seeded: true,
+        };
+        if (random() < 0.6) feedback.comment = pick(COMMENTS);
+        feedbacks.push({ ref: db.collection('feedbacks').doc(), data: feedback, coords: building.coords });
+      });
+    }
+  }
+
+  // Aggregate feedback per location; a user's latest feedback is their rating there
+  const locations = new Map();
+  [...feedbacks]
+    .sort((a, b) => a.data.createdAt.toMillis() - b.data.createdAt.toMillis())
+    .forEach(({ data, coords }) => {
+      const locationId = generateLocationId(undefined, data.locationName, coords);
+      if (!locations.has(locationId)) {
+        locations.set(locationId, { locationName: data.locationName, locationCoords: coords, ratings: new Map() });
+      }
+      locations.get(locationId).ratings.set(data.userId, {
+        userId: data.userId,
+        userName: userName(data.userId),
+        rating: data.rating,
+        reviewText: data.comment || '',
+        timestamp: data.createdAt,
+        lastSessionId: data.sessionId,
+        seeded: true,
+      });
+    });
+
+  // One review document per user under the location, aggregates on the location itself
+  const locationRatings = [];
+  const reviews = [];
+  locations.forEach((location, locationId) => {
+    const ref = db.collection('locationRatings').doc(locationId);
+    const aggregates = readAggregates();
+    location.ratings.forEach((review) => {
+      applyReview(aggregates, review, 1);
+      reviews.push({ ref: ref.collection('reviews').doc(review.userId), data: review });
+    });
+    locationRatings.push({
+      ref,
+      data: {
+        locationId,
+        locationName: location.locationName,
+        locationCoords: location.locationCoords,
+        placeId: null,
+        ...aggregates,
+        ...summarizeRatingCounts(aggregates.ratingCounts),
+        seeded: true,
+      },
+    });
   });
-  await batch.commit();
-  console.log(`Seeded ${sessions.length} sessions.`);
+
+  return { users, sessions, feedbacks, locationRatings, reviews };
+}
+
+// Emulator only: sign-in accounts whose uid matches the seeded creators/attendees
+async function createEmulatorAccounts(users) {
+  let created = 0;
+  for (const user of users) {
+    try {
+      await admin.auth().createUser({
+        uid: user.uid,
+        email: `${user.uid}@studysync.test`,
+        password: EMULATOR_PASSWORD,
+        displayName: user.name,
+      });
+      created++;
+    } catch (e) {
+      if (e.code !== 'auth/uid-already-exists') throw e;
+    }
+  }
+  console.log(`Created ${created} emulator accounts (password "${EMULATOR_PASSWORD}").`);
+}
+
+async function seed() {
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  const config = readConfig();
+  if (options.clear) {
+    await clearSeeded();
+  }
+  if (config.count === 0) return;
+
+  const { users, sessions, feedbacks, locationRatings, reviews } = generate(config);
+  if (useEmulators) {
+    await createEmulatorAccounts(users);
+  }
+  await commitInChunks(
+    [...sessions, ...feedbacks, ...locationRatings, ...reviews].map(({ ref, data }) => (batch) => batch.set(ref, data))
+  );
+
+  const upcoming = sessions.filter((s) => s.data.startTime.toMillis() >= Date.now()).length;
+  console.log(`Seeded ${sessions.length} sessions (${upcoming} upcoming), ${feedbacks.length} feedbacks, ` +
+    `${locationRatings.length} locationRatings with ${reviews.length} reviews (seed ${config.seed}).`);
 }
 
 seed().then(() => process.exit(0)).catch((e) => {
-  console.error(e);
+  console.error(e.message || e);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,39 @@
+/* Set custom auth claims used by middleware/auth.js.
+   Usage:
+     node scripts/set-claims.js <uid> --admin
+     node scripts/set-claims.js <uid> --course-staff "CS 124" --course-staff "CS 173"
+     node scripts/set-claims.js <uid> --clear
+   Users must sign in again (or refresh their ID token) before new claims apply. */
+const { parseArgs } = require('util');
+const { admin } = require('../firebase');
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    admin: { type: 'boolean', default: false },
+    'course-staff': { type: 'string', multiple: true, default: [] },
+    clear: { type: 'boolean', default: false },
+  },
+});
+
+async function setClaims() {
+  const [uid] = positionals;
+  if (!uid) {
+    throw new Error('Usage: node scripts/set-claims.js <uid> [--admin] [--course-staff "CS 124"] [--clear]');
+  }
+
+  const claims = {};
+  if (!values.clear) {
+    if (values.admin) claims.admin = true;
+    if (values['course-staff'].length > 0) claims.courseStaff = values['course-staff'];
+  }
+
+  // Passing null removes every custom claim
+  await admin.auth().setCustomUserClaims(uid, Object.keys(claims).length > 0 ? claims : null);
+  console.log(`Set claims for ${uid}:`, claims);
+}
+
+setClaims().then(() => process.exit(0)).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,268 @@
+/* Server-authoritative join/leave and waitlist for sessions.
+   Each operation runs in a Firestore transaction so concurrent joins cannot
+   overfill a session and attendees/waitlist never contain duplicates.
+   RSVP semantics by signup policy:
+   - open: join any time; "I might come" (`interested`) takes no spot
+   - preferred: RSVPs (`attendees`) close at start; people who show up
+     without one check in as drop-ins (`dropIns`), which take no spot
+   - required: host-approved requests only (services/joinRequests.js) */
+const { db } = require('../firebase');
+const HttpError = require('../lib/httpError');
+const { computeIsFull, promoteFromWaitlist } = require('../models/session');
+const { notifyUsers } = require('./notifications');
+const { matchesInviteCode, isSessionMember } = require('../lib/invites');
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+// Drop-in check-in opens this long before a "preferred" session starts
+const DROP_IN_OPENS_MS = 15 * 60 * 1000;
+
+// Sessions without an end time are treated as over 1 hour after start (same as the list view)
+const hasEnded = (data, now) => {
+  const end = data.endTime ? data.endTime.toMillis() : data.startTime.toMillis() + ONE_HOUR_MS;
+  return end < now;
+};
+
+// Throws if the session is over or the caller may not take part in it
+const assertCanAttend = (data, now, uid, inviteCode) => {
+  if (data.status === 'cancelled') {
+    throw new HttpError(400, 'This session was cancelled');
+  }
+  if (hasEnded(data, now)) {
+    throw new HttpError(400, 'This session has already ended');
+  }
+  // Invite-only sessions need the current code (the host and waitlisted users already have access)
+  if (data.visibility === 'invite' && !isSessionMember(data, uid) && !matchesInviteCode(data, inviteCode)) {
+    throw new HttpError(403, 'A valid invite code is required to join this session');
+  }
+};
+
+// Throws if the signup policy or visibility does not allow joining right now
+const assertCanJoin = (data, now, uid, inviteCode) => {
+  assertCanAttend(data, now, uid, inviteCode);
+  // "required" and "preferred" sessions sign up in advance, so sign-ups close at start time
+  if (data.signupPolicy === 'required' && data.startTime.toMillis() <= now) {
+    throw new HttpError(400, 'Sign-up for this session closed when it started');
+  }
+  if (data.signupPolicy === 'preferred' && data.startTime.toMillis() <= now) {
+    throw new HttpError(400, 'RSVPs closed when this session started. Check in as a drop-in instead.');
+  }
+};
+
+// Read a session inside a transaction, throwing 404 if it is gone
+const getSessionForUpdate = async (transaction, sessionRef) => {
+  const doc = await transaction.get(sessionRef);
+  if (!doc.exists) {
+    throw new HttpError(404, 'Session does not exist');
+  }
+  const data = doc.data();
+  return {
+    ...data,
+    attendees: data.attendees || [],
+    waitlist: data.waitlist || [],
+    pendingRequests: data.pendingRequests || [],
+    interested: data.interested || [],
+    dropIns: data.dropIns || [],
+  };
+};
+
+// "required" sessions are joined through a host-approved request (services/joinRequests.js)
+const assertOpenSignup = (data) => {
+  if (data.signupPolicy === 'required') {
+    throw new HttpError(409, 'This session needs host approval. Send a join request instead.');
+  }
+};
+
+// Tell promoted users they got a spot (sent after the transaction commits)
+const notifyPromoted = (sessionId, session, promoted) =>
+  notifyUsers(promoted, {
+    type: 'waitlist_promoted',
+    sessionId,
+    title: 'You\'re in!',
+    body: `A spot opened up in ${session.course} — ${session.topic}. You've been moved off the waitlist.`,
+  });
+
+const joinSession = async (sessionId, uid, inviteCode) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+
+    if (data.attendees.includes(uid)) {
+      throw new HttpError(409, 'You are already in this session');
+    }
+    assertOpenSignup(data);
+    assertCanJoin(data, Date.now(), uid, inviteCode);
+    // Anyone already queued goes first
+    if ((data.capacity && data.attendees.length >= data.capacity) || data.waitlist.length > 0) {
+      throw new HttpError(409, 'Session is full');
+    }
+
+    const newAttendees = [...data.attendees, uid];
+    const isFull = computeIsFull(data.capacity, newAttendees);
+    // Joining replaces an "I might come"
+    const interested = data.interested.filter((entry) => entry !== uid);
+    transaction.update(sessionRef, { attendees: newAttendees, isFull, interested });
+    return { attendees: newAttendees, isFull };
+  });
+};
+
+const leaveSession = async (sessionId, uid) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+
+    if (!data.attendees.includes(uid)) {
+      throw new HttpError(409, 'You are not in this session');
+    }
+
+    // The freed spot goes to the first person in line
+    const remaining = data.attendees.filter((attendee) => attendee !== uid);
+    const { attendees, waitlist, promoted } = promoteFromWaitlist(data.capacity, remaining, data.waitlist);
+    const isFull = computeIsFull(data.capacity, attendees);
+    transaction.update(sessionRef, { attendees, waitlist, isFull });
+    return { session: data, attendees, waitlist, isFull, promoted };
+  });
+
+  await notifyPromoted(sessionId, result.session, result.promoted);
+  const { attendees, waitlist, isFull } = result;
+  return { attendees, waitlist, isFull };
+};
+
+const joinWaitlist = async (sessionId, uid, inviteCode) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+
+    if (data.attendees.includes(uid)) {
+      throw new HttpError(409, 'You are already in this session');
+    }
+    if (data.waitlist.includes(uid)) {
+      throw new HttpError(409, 'You are already on the waitlist');
+    }
+    assertOpenSignup(data);
+    assertCanJoin(data, Date.now(), uid, inviteCode);
+    if (!data.capacity || (data.attendees.length < data.capacity && data.waitlist.length === 0)) {
+      throw new HttpError(409, 'Session has open spots — join it directly');
+    }
+
+    const waitlist = [...data.waitlist, uid];
+    transaction.update(sessionRef, { waitlist });
+    return { waitlist, position: waitlist.length };
+  });
+};
+
+const leaveWaitlist = async (sessionId, uid) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+
+    if (!data.waitlist.includes(uid)) {
+      throw new HttpError(409, 'You are not on the waitlist');
+    }
+
+    const waitlist = data.waitlist.filter((entry) => entry !== uid);
+    transaction.update(sessionRef, { waitlist });
+    return { waitlist };
+  });
+};
+
+// "I might come" on an open session: visible to others, takes no spot
+const markInterested = async (sessionId, uid, inviteCode) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+
+    if (data.signupPolicy !== 'open') {
+      throw new HttpError(409, 'Only open sessions take "I might come"');
+    }
+    if (data.attendees.includes(uid)) {
+      throw new HttpError(409, 'You are already in this session');
+    }
+    if (data.interested.includes(uid)) {
+      throw new HttpError(409, 'You already marked this session');
+    }
+    assertCanAttend(data, Date.now(), uid, inviteCode);
+
+    const interested = [...data.interested, uid];
+    transaction.update(sessionRef, { interested });
+    return { interested };
+  });
+};
+
+const unmarkInterested = async (sessionId, uid) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+    if (!data.interested.includes(uid)) {
+      throw new HttpError(409, 'You have not marked this session');
+    }
+
+    const interested = data.interested.filter((entry) => entry !== uid);
+    transaction.update(sessionRef, { interested });
+    return { interested };
+  });
+};
+
+// Check in to a "preferred" session without an RSVP; drop-ins take no RSVP spot
+const checkInDropIn = async (sessionId, uid, inviteCode) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+    const now = Date.now();
+
+    if (data.signupPolicy !== 'preferred') {
+      throw new HttpError(409, 'Only preferred sessions take drop-ins');
+    }
+    if (data.attendees.includes(uid)) {
+      throw new HttpError(409, 'You already RSVP\'d to this session');
+    }
+    if (data.dropIns.includes(uid)) {
+      throw new HttpError(409, 'You already checked in');
+    }
+    assertCanAttend(data, now, uid, inviteCode);
+    if (data.startTime.toMillis() - DROP_IN_OPENS_MS > now) {
+      throw new HttpError(400, 'Drop-in check-in opens 15 minutes before the session starts. RSVP instead.');
+    }
+
+    const dropIns = [...data.dropIns, uid];
+    transaction.update(sessionRef, { dropIns });
+    return { dropIns };
+  });
+};
+
+const leaveDropIn = async (sessionId, uid) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+    if (!data.dropIns.includes(uid)) {
+      throw new HttpError(409, 'You are not checked in as a drop-in');
+    }
+
+    const dropIns = data.dropIns.filter((entry) => entry !== uid);
+    transaction.update(sessionRef, { dropIns });
+    return { dropIns };
+  });
+};
+
+module.exports = {
+  DROP_IN_OPENS_MS,
+  assertCanJoin,
+  getSessionForUpdate,
+  joinSession,
+  leaveSession,
+  joinWaitlist,
+  leaveWaitlist,
+  markInterested,
+  unmarkInterested,
+  checkInDropIn,
+  leaveDropIn,
+  notifyPromoted,
+  hasEnded,
+};
@@ -0,0 +1,21 @@
+/* Per-session audit trail: host actions are appended to the
+   sessions/{id}/auditLog subcollection in the same transaction as the change. */
+const { admin } = require('../firebase');
+
+/**
+ * Queue an audit entry on a transaction.
+ * @param {FirebaseFirestore.Transaction} transaction
+ * @param {FirebaseFirestore.DocumentReference} sessionRef
+ * @param {{ action: string, actorId: string, reason?: string, changes?: string[] }} entry
+ */
+const addAuditEntry = (transaction, sessionRef, { action, actorId, reason, changes }) => {
+  transaction.set(sessionRef.collection('auditLog').doc(), {
+    action,
+    actorId,
+    reason: reason ?? null,
+    changes: changes ?? [],
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+module.exports = { addAuditEntry };
@@ -0,0 +1,82 @@
+/* Soft cancellation: the session document stays (so attendees keep it in
+   their history and subscribed calendars get STATUS:CANCELLED) but is marked
+   cancelled, hidden from listings and closed to joins and edits. */
+const { admin, db } = require('../firebase');
+const HttpError = require('../lib/httpError');
+const { canManageSession } = require('../middleware/auth');
+const { addAuditEntry } = require('./audit');
+const { notifyUsers } = require('./notifications');
+const { SERIES_SCOPES, getFutureOccurrences } = require('./series');
+
+const MAX_REASON_LENGTH = 500;
+
+// scope "future" also cancels every later occurrence of a recurring session
+const cancelSession = async (sessionId, user, reason, scope = 'this') => {
+  const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+  if (!trimmedReason) {
+    throw new HttpError(400, 'A cancellation reason is required');
+  }
+  if (trimmedReason.length > MAX_REASON_LENGTH) {
+    throw new HttpError(400, `Reason must be at most ${MAX_REASON_LENGTH} characters`);
+  }
+  if (!SERIES_SCOPES.includes(scope)) {
+    throw new HttpError(400, `scope must be one of: ${SERIES_SCOPES.join(', ')}`);
+  }
+
+  const sessionRef = db.collection('sessions').doc(sessionId);
+  const cancelled = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(sessionRef);
+    if (!doc.exists) {
+      throw new HttpError(404, 'Session not found');
+    }
+    const data = doc.data();
+    if (!canManageSession(user, data)) {
+      throw new HttpError(403, 'Only the host can cancel this session');
+    }
+    if (data.status === 'cancelled') {
+      throw new HttpError(409, 'This session is already cancelled');
+    }
+
+    const targets = scope === 'future' && data.seriesId
+      ? await getFutureOccurrences(transaction, data)
+      : [doc];
+
+    const { FieldValue } = admin.firestore;
+    targets.forEach((target) => {
+      transaction.update(target.ref, {
+        status: 'cancelled',
+        cancelReason: trimmedReason,
+        cancelledBy: user.uid,
+        cancelledAt: FieldValue.serverTimestamp(),
+        revision: FieldValue.increment(1),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      addAuditEntry(transaction, target.ref, { action: 'cancelled', actorId: user.uid, reason: trimmedReason });
+    });
+    return targets.map((target) => ({ id: target.id, ...target.data() }));
+  });
+
+  // Everyone who was attending, waiting, asking to join or thinking of coming, except whoever cancelled it; one message per person
+  const session = cancelled[0];
+  const recipients = cancelled
+    .flatMap((s) => [
+      ...(s.attendees || []),
+      ...(s.waitlist || []),
+      ...(s.pendingRequests || []),
+      ...(s.interested || []),
+    ])
+    .filter((uid) => uid !== user.uid);
+  await notifyUsers(recipients, {
+    type: 'session_cancelled',
+    sessionId,
+    sessionIds: cancelled.map((s) => s.id),
+    title: `${session.course} session${cancelled.length > 1 ? 's' : ''} cancelled`,
+    body: cancelled.length > 1
+      ? `${session.topic}: this and the next ${cancelled.length - 1} sessions are cancelled. Reason: ${trimmedReason}`
+      : `${session.topic} has been cancelled. Reason: ${trimmedReason}`,
+  });
+
+  return { status: 'cancelled', cancelReason: trimmedReason, cancelledIds: cancelled.map((s) => s.id) };
+};
+
+module.exports = { cancelSession };
@@ -0,0 +1,185 @@
+/* Host approval for "required" sessions. A request is a document in
+   sessions/{id}/joinRequests/{uid}; the session's `pendingRequests` array
+   mirrors the open ones so the app can show "Request pending" and the host's
+   profile can find sessions waiting on a decision. Approving moves the
+   requester into `attendees`, so capacity only ever counts approved people. */
+const { admin, db } = require('../firebase');
+const HttpError = require('../lib/httpError');
+const { canManageSession } = require('../middleware/auth');
+const { computeIsFull } = require('../models/session');
+const { assertCanJoin, getSessionForUpdate } = require('./attendance');
+const { addAuditEntry } = require('./audit');
+const { notifyUsers } = require('./notifications');
+
+const MAX_NOTE_LENGTH = 500;
+
+const requestRef = (sessionRef, uid) => sessionRef.collection('joinRequests').doc(uid);
+
+const toIso = (value) => (value ? value.toDate().toISOString() : null);
+
+// Join request document -> JSON response shape
+const serializeJoinRequest = (doc) => {
+  const data = doc.data();
+  return {
+    userId: doc.id,
+    userName: data.userName,
+    note: data.note ?? null,
+    status: data.status,
+    createdAt: toIso(data.createdAt),
+  };
+};
+
+/**
+ * Ask the host of a "required" session to let the caller in.
+ * @param {object} user decoded ID token of the requester
+ * @param {string} [note] optional message for the host
+ * @param {string} [inviteCode] needed for invite-only sessions
+ */
+const requestToJoin = async (sessionId, user, note, inviteCode) => {
+  const trimmedNote = typeof note === 'string' ? note.trim() : '';
+  if (trimmedNote.length > MAX_NOTE_LENGTH) {
+    throw new HttpError(400, `Note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const sessionRef = db.collection('sessions').doc(sessionId);
+  const userName = user.name || user.email || 'A student';
+
+  const session = await db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+
+    if (data.signupPolicy !== 'required') {
+      throw new HttpError(409, 'This session does not need approval. Join it directly.');
+    }
+    if (data.attendees.includes(user.uid)) {
+      throw new HttpError(409, 'You are already in this session');
+    }
+    if (data.pendingRequests.includes(user.uid)) {
+      throw new HttpError(409, 'You already asked to join this session');
+    }
+    assertCanJoin(data, Date.now(), user.uid, inviteCode);
+
+    // Asking again after a decline replaces the old request
+    transaction.set(requestRef(sessionRef, user.uid), {
+      userName,
+      note: trimmedNote || null,
+      status: 'pending',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(sessionRef, { pendingRequests: [...data.pendingRequests, user.uid] });
+    return data;
+  });
+
+  await notifyUsers([session.creatorId], {
+    type: 'join_request',
+    sessionId,
+    title: `${userName} wants to join ${session.course}`,
+    body: trimmedNote ? `${session.topic}: "${trimmedNote}"` : `${session.topic}: review the request in your profile.`,
+  });
+  return { status: 'pending' };
+};
+
+const withdrawJoinRequest = async (sessionId, uid) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+    if (!data.pendingRequests.includes(uid)) {
+      throw new HttpError(409, 'You have no pending request for this session');
+    }
+
+    const pendingRequests = data.pendingRequests.filter((entry) => entry !== uid);
+    transaction.delete(requestRef(sessionRef, uid));
+    transaction.update(sessionRef, { pendingRequests });
+    return { pendingRequests };
+  });
+};
+
+// Pending requests for the host, oldest first
+const listJoinRequests = async (sessionId, user) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+  const doc = await sessionRef.get();
+  if (!doc.exists) {
+    throw new HttpError(404, 'Session not found');
+  }
+  if (!canManageSession(user, doc.data())) {
+    throw new HttpError(403, 'Only the host can see join requests');
+  }
+
+  const snapshot = await sessionRef.collection('joinRequests').where('status', '==', 'pending').get();
+  return snapshot.docs
+    .map(serializeJoinRequest)
+    .sort((a, b) => (a.createdAt ?? '').localeCompare(b.createdAt ?? ''));
+};
+
+/**
+ * Approve or decline a pending request. Approval fails while the session is
+ * full; the host can raise the capacity first.
+ */
+const decideJoinRequest = async (sessionId, requesterId, user, approve) => {
+  const sessionRef = db.collection('sessions').doc(sessionId);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const data = await getSessionForUpdate(transaction, sessionRef);
+    const request = await transaction.get(requestRef(sessionRef, requesterId));
+
+    if (!canManageSession(user, data)) {
+      throw new HttpError(403, 'Only the host can answer join requests');
+    }
+    if (!request.exists || request.data().status !== 'pending' || !data.pendingRequests.includes(requesterId)) {
+      throw new HttpError(404, 'No pending request from this user');
+    }
+
+    const update = { pendingRequests: data.pendingRequests.filter((uid) => uid !== requesterId) };
+    if (approve) {
+      if (data.status === 'cancelled') {
+        throw new HttpError(409, 'This session was cancelled');
+      }
+      if (data.capacity && data.attendees.length >= data.capacity) {
+        throw new HttpError(409, 'Session is full. Raise the capacity to approve more people.');
+      }
+      update.attendees = [...data.attendees, requesterId];
+      update.isFull = computeIsFull(data.capacity, update.attendees);
+    }
+
+    transaction.update(sessionRef, update);
+    transaction.update(request.ref, {
+      status: approve ? 'approved' : 'declined',
+      decidedBy: user.uid,
+      decidedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    addAuditEntry(transaction, sessionRef, {
+      action: approve ? 'request_approved' : 'request_declined',
+      actorId: user.uid,
+      changes: [`${request.data().userName} (${requesterId})`],
+    });
+    return { session: data, update };
+  });
+
+  const { session, update } = result;
+  await notifyUsers([requesterId], approve
+    ? {
+      type: 'join_request_approved',
+      sessionId,
+      title: `You're in: ${session.course}`,
+      body: `${session.creatorName} approved your request to join ${session.topic}.`,
+    }
+    : {
+      type: 'join_request_declined',
+      sessionId,
+      title: `${session.course} request declined`,
+      body: `${session.creatorName} couldn't fit you into ${session.topic} this time.`,
+    });
+
+  return {
+    attendees: update.attendees ?? session.attendees,
+    pendingRequests: update.pendingRequests,
+    isFull: update.isFull ?? session.isFull ?? false,
+  };
+};
+
+module.exports = {
+  requestToJoin,
+  withdrawJoinRequest,
+  listJoinRequests,
+  decideJoinRequest,
+};
@@ -0,0 +1,166 @@
+/* Study-spot ratings. Each rating is a document in
+   locationRatings/{locationId}/reviews/{uid}, one per person (their latest).
+   The location document keeps `averageRating`, `totalRatings`, the per-star
+   histogram `ratingCounts`, and the optional detail scores (`attributeScores`)
+   and amenity tags (`amenityCounts`), all updated in the same transaction as
+   the review so concurrent raters never drop each other's ratings. The
+   session feedback entry (`feedbacks`) is written in that transaction too, so
+   a rating is never saved without its feedback or the other way round. */
+const { admin, db } = require('../firebase');
+const HttpError = require('../lib/httpError');
+const { hasEnded } = require('./attendance');
+const {
+  generateLocationId,
+  summarizeRatingCounts,
+  LOCATION_ATTRIBUTES,
+  AMENITY_TAGS,
+  readAggregates,
+  applyReview,
+} = require('../lib/locations');
+
+const MAX_REVIEW_LENGTH = 2000;
+
+const locationsRef = db.collection('locationRatings');
+const reviewRef = (locationRef, uid) => locationRef.collection('reviews').doc(uid);
+// One feedback entry per person per session
+const feedbackRef = (sessionId, uid) => db.collection('feedbacks').doc(`${sessionId}_${uid}`);
+
+// { noise: 2, wifi: 5 } -> validated copy; every attribute is optional
+const parseAttributes = (attributes) => {
+  if (attributes === undefined || attributes === null) return {};
+  if (typeof attributes !== 'object' || Array.isArray(attributes)) {
+    throw new HttpError(400, 'attributes must be an object of 1-5 scores');
+  }
+  const parsed = {};
+  Object.entries(attributes).forEach(([key, score]) => {
+    if (!LOCATION_ATTRIBUTES.includes(key)) {
+      throw new HttpError(400, `Unknown attribute "${key}"`);
+    }
+    if (!Number.isInteger(score) || score < 1 || score > 5) {
+      throw new HttpError(400, `${key} must be a whole number from 1 to 5`);
+    }
+    parsed[key] = score;
+  });
+  return parsed;
+};
+
+const parseAmenities = (amenities) => {
+  if (amenities === undefined || amenities === null) return [];
+  if (!Array.isArray(amenities)) {
+    throw new HttpError(400, 'amenities must be a list');
+  }
+  const unknown = amenities.find((tag) => !AMENITY_TAGS.includes(tag));
+  if (unknown !== undefined) {
+    throw new HttpError(400, `Unknown amenity "${unknown}"`);
+  }
+  return [...new Set(amenities)];
+};
+
+// Sessions created without a picked place store 0,0
+const hasCoords = (coords) => Boolean(coords) && (coords.latitude !== 0 || coords.longitude !== 0);
+
+/**
+ * Rate the spot a session was held at, as someone who attended it, once the
+ * session is over. Records the session feedback and replaces the caller's
+ * earlier rating of the spot; rating it twice for the same session is rejected.
+ * @param {object} user decoded ID token of the rater
+ * @param {number} rating whole stars, 1-5
+ * @param {string} [reviewText] optional review
+ * @param {object} [details] optional `attributes` scores and `amenities` tags
+ */
+const rateSessionLocation = async (sessionId, user, rating, reviewText, details = {}) => {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new HttpError(400, 'Rating must be a whole number from 1 to 5');
+  }
+  const text = typeof reviewText === 'string' ? reviewText.trim() : '';
+  if (text.length > MAX_REVIEW_LENGTH) {
+    throw new HttpError(400, `Reviews are limited to ${MAX_REVIEW_LENGTH} characters`);
+  }
+  const attributes = parseAttributes(details.attributes);
+  const amenities = parseAmenities(details.amenities);
+
+  const sessionDoc = await db.collection('sessions').doc(sessionId).get();
+  if (!sessionDoc.exists) {
+    throw new HttpError(404, 'Session does not exist');
+  }
+  const session = sessionDoc.data();
+  if (session.status === 'cancelled') {
+    throw new HttpError(400, 'This session was cancelled');
+  }
+  if (!hasEnded(session, Date.now())) {
+    throw new HttpError(400, 'You can rate this spot once the session has ended');
+  }
+  const attended = (session.attendees || []).includes(user.uid) || (session.dropIns || []).includes(user.uid);
+  if (!attended) {
+    throw new HttpError(403, 'Only people who attended this session can rate its location');
+  }
+  if (!session.locationName || !hasCoords(session.locationCoords)) {
+    throw new HttpError(400, 'This session has no location to rate');
+  }
+
+  const locationId = generateLocationId(undefined, session.locationName, session.locationCoords);
+  const locationRef = locationsRef.doc(locationId);
+  const profile = await db.collection('users').doc(user.uid).get();
+  const userName = (profile.exists && profile.data().displayName) || user.name || 'Student';
+
+  return db.runTransaction(async (transaction) => {
+    const locationDoc = await transaction.get(locationRef);
+    const previousDoc = await transaction.get(reviewRef(locationRef, user.uid));
+    const feedbackDoc = await transaction.get(feedbackRef(sessionId, user.uid));
+    const previous = previousDoc.exists ? previousDoc.data() : null;
+    // The review only remembers its latest session, so the feedback entry
+    // catches a return to an earlier session after rating a later one
+    if (feedbackDoc.exists || (previous && previous.lastSessionId === sessionId)) {
+      throw new HttpError(409, 'You have already rated this spot for this session');
+    }
+
+    const review = {
+      userId: user.uid,
+      userName,
+      rating,
+      reviewText: text,
+      attributes,
+      amenities,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      lastSessionId: sessionId,
+    };
+    const aggregates = readAggregates(locationDoc.exists ? locationDoc.data() : {});
+    if (previous) {
+      applyReview(aggregates, previous, -1);
+    }
+    applyReview(aggregates, review, 1);
+    const fields = { ...aggregates, ...summarizeRatingCounts(aggregates.ratingCounts) };
+
+    if (locationDoc.exists) {
+      transaction.update(locationRef, fields);
+    } else {
+      transaction.set(locationRef, {
+        locationId,
+        locationName: session.locationName,
+        locationCoords: session.locationCoords,
+        placeId: null,
+        ...fields,
+      });
+    }
+    transaction.set(reviewRef(locationRef, user.uid), review);
+    transaction.set(feedbackRef(sessionId, user.uid), {
+      sessionId,
+      userId: user.uid,
+      locationName: session.locationName,
+      rating,
+      ...(text ? { comment: text } : {}),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { locationId, ...fields };
+  });
+};
+
+// Rebuild a location's aggregates from its reviews (scripts/migrate-location-reviews.js)
+const recountLocationRatings = async (locationRef) => {
+  const snapshot = await locationRef.collection('reviews').get();
+  const aggregates = readAggregates();
+  snapshot.docs.forEach((doc) => applyReview(aggregates, doc.data(), 1));
+  return { ...aggregates, ...summarizeRatingCounts(aggregates.ratingCounts) };
+};
+
+module.exports = { rateSessionLocation, recountLocationRatings, reviewRef, MAX_REVIEW_LENGTH };
@@ -0,0 +1,73 @@
+/* In-app notifications: one document per message in the "notifications"
+   collection. The app listens for its user's unread documents and shows
+   them as local notifications (hooks/use-notification-inbox.ts); devices
+   with a registered push token also get an Expo push (services/pushDispatcher.js). */
+const { admin, db } = require('../firebase');
+const { courseKey } = require('../lib/courses');
+const { formatDateTime } = require('../lib/time');
+const { dispatchPush } = require('./pushDispatcher');
+
+const notificationsRef = db.collection('notifications');
+
+// Firestore batches hold at most 500 writes
+const BATCH_LIMIT = 500;
+
+/**
+ * Queue the same message for several users.
+ * @param {string[]} userIds recipients (duplicates are ignored)
+ * @param {{ type: string, sessionId?: string, sessionIds?: string[], title: string, body: string }} message
+ *   `sessionIds` lists every session a message covers (e.g. a cancelled series)
+ */
+const notifyUsers = async (userIds, message) => {
+  const recipients = [...new Set(userIds)].filter(Boolean);
+  if (recipients.length === 0) return;
+
+  for (let i = 0; i < recipients.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    recipients.slice(i, i + BATCH_LIMIT).forEach((userId) => {
+      batch.set(notificationsRef.doc(), {
+        userId,
+        type: message.type,
+        sessionId: message.sessionId ?? null,
+        ...(message.sessionIds && { sessionIds: message.sessionIds }),
+        title: message.title,
+        body: message.body,
+        read: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  // The stored notification is the source of truth; a failed push must not fail the request
+  try {
+    await dispatchPush(recipients, message);
+  } catch (error) {
+    console.error('Error sending push notifications:', error);
+  }
+};
+
+/**
+ * Tell users who follow a course (notification settings → "New sessions in my
+ * courses") that a session was created. The app keeps users/{uid}.courseKeys
+ * empty while that category is switched off, so no extra check is needed here.
+ * @param {object} session the created session's fields (startTime as a Timestamp)
+ * @param {string[]} sessionIds every session created (more than one for a series)
+ */
+const notifyNewSession = async (session, sessionIds) => {
+  const snapshot = await db.collection('users')
+    .where('courseKeys', 'array-contains', courseKey(session.course))
+    .get();
+  const followers = snapshot.docs.map((doc) => doc.id).filter((uid) => uid !== session.creatorId);
+
+  const extra = sessionIds.length > 1 ? ` (first of ${sessionIds.length} weekly sessions)` : '';
+  await notifyUsers(followers, {
+    type: 'new_session',
+    sessionId: sessionIds[0],
+    ...(sessionIds.length > 1 && { sessionIds }),
+    title: `New ${session.course} session`,
+    body: `${session.topic} · ${formatDateTime(session.startTime.toDate())} at ${session.locationName}${extra}`,
+  });
+};
+
+module.exports = { notifyUsers, notifyNewSession };
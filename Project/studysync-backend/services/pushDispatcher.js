@@ -0,0 +1,159 @@
+/* Expo push delivery for in-app notifications, so attendees hear about a
+   host's edit or cancellation even when the app is closed. Devices register
+   tokens in users/{uid}.expoPushTokens (hooks/use-push-registration.ts).
+   Messages go to the Expo push API in batches of 100 with retries; tokens
+   Expo reports as DeviceNotRegistered are removed from the user document.
+   Set EXPO_PUSH_URL to the mock endpoint (routes/mockPush.js) for local testing. */
+const { admin, db } = require('../firebase');
+
+const DEFAULT_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+// Expo accepts at most 100 messages per request
+const PUSH_BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 500;
+
+// Which notification-settings category controls each type
+// (same mapping as categoryForType in the app's utils/notificationPreferences.ts)
+const CATEGORY_BY_TYPE = {
+  session_updated: 'hostChanges',
+  session_cancelled: 'hostChanges',
+  waitlist_promoted: 'waitlistPromotions',
+  new_session: 'newSessions',
+  join_request: 'joinRequests',
+  join_request_approved: 'joinRequests',
+  join_request_declined: 'joinRequests',
+};
+
+const pushUrl = () => process.env.EXPO_PUSH_URL || DEFAULT_PUSH_URL;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// "HH:MM" -> minutes after midnight
+const parseClockTime = (value) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? '').trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Quiet hours are wall-clock times on the user's device, so check them in its time zone
+const isWithinQuietHours = (quietHours, timeZone, now = new Date()) => {
+  if (!quietHours?.enabled) return false;
+  const start = parseClockTime(quietHours.start);
+  const end = parseClockTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  let parts;
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || undefined,
+      hourCycle: 'h23',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(now);
+  } catch {
+    // Unknown time zone string from an old client
+    return false;
+  }
+  const get = (type) => Number(parts.find((p) => p.type === type).value);
+  const minutes = get('hour') * 60 + get('minute');
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+// Whether a user wants a push for this message type right now
+const wantsPush = (user, type) => {
+  const preferences = user.notificationPreferences;
+  const category = CATEGORY_BY_TYPE[type];
+  if (category && preferences?.categories?.[category] === false) return false;
+  return !isWithinQuietHours(preferences?.quietHours, user.timeZone);
+};
+
+/**
+ * POST one batch to the push API, retrying network errors, 429s and 5xx.
+ * @returns {Promise<object[]>} one ticket per message, in order
+ */
+const sendBatch = async (messages) => {
+  let lastError;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(pushUrl(), {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...(process.env.EXPO_ACCESS_TOKEN && { Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}` }),
+        },
+        body: JSON.stringify(messages),
+      });
+      if (response.ok) {
+        const { data } = await response.json();
+        return data;
+      }
+      lastError = new Error(`Push API responded ${response.status}`);
+      // Other 4xx mean the request itself is wrong; retrying will not help
+      if (response.status !== 429 && response.status < 500) break;
+    } catch (error) {
+      lastError = error;
+    }
+    if (attempt < MAX_ATTEMPTS) await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+  }
+  throw lastError;
+};
+
+/**
+ * Push the same message to every registered device of the given users.
+ * Failures are logged, never thrown: the in-app notification is already stored.
+ * @param {string[]} userIds recipients (already de-duplicated)
+ * @param {{ type: string, sessionId?: string, sessionIds?: string[], title: string, body: string }} message
+ */
+const dispatchPush = async (userIds, message) => {
+  if (userIds.length === 0) return;
+
+  const userRefs = userIds.map((uid) => db.collection('users').doc(uid));
+  const userDocs = await db.getAll(...userRefs);
+
+  // One push message per device token, remembering whose token it is
+  const deliveries = [];
+  userDocs.forEach((doc) => {
+    if (!doc.exists) return;
+    const user = doc.data();
+    if (!wantsPush(user, message.type)) return;
+    (user.expoPushTokens || []).forEach((token) => deliveries.push({ uid: doc.id, token }));
+  });
+  if (deliveries.length === 0) return;
+
+  const invalid = [];
+  for (let i = 0; i < deliveries.length; i += PUSH_BATCH_SIZE) {
+    const batch = deliveries.slice(i, i + PUSH_BATCH_SIZE);
+    try {
+      const tickets = await sendBatch(batch.map(({ token }) => ({
+        to: token,
+        title: message.title,
+        body: message.body,
+        sound: 'default',
+        data: {
+          type: message.type,
+          sessionId: message.sessionId ?? null,
+          ...(message.sessionIds && { sessionIds: message.sessionIds }),
+        },
+      })));
+      tickets.forEach((ticket, index) => {
+        if (ticket.status !== 'error') return;
+        if (ticket.details?.error === 'DeviceNotRegistered') {
+          invalid.push(batch[index]);
+        } else {
+          console.error(`Push to ${batch[index].uid} failed: ${ticket.message}`);
+        }
+      });
+    } catch (error) {
+      console.error('Push batch failed:', error.message);
+    }
+  }
+
+  // Uninstalled apps and expired tokens stop receiving pushes for good
+  for (const { uid, token } of invalid) {
+    await db.collection('users').doc(uid).update({
+      expoPushTokens: admin.firestore.FieldValue.arrayRemove(token),
+    });
+  }
+};
+
+module.exports = { dispatchPush };
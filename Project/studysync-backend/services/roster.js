@@ -0,0 +1,61 @@
+/* Who is coming to a session, with names from users/{uid}.
+   The users collection is owner-only in firestore.rules (it also holds push
+   tokens and notification settings), so the app gets other people's public
+   profile fields here. Users who turned on `anonymousOnRosters` are listed
+   as "Anonymous student" to everyone but themselves; privateProfile is
+   never returned. */
+const { db } = require('../firebase');
+
+const ANONYMOUS_NAME = 'Anonymous student';
+// Accounts created before profiles existed and never signed in since
+const FALLBACK_NAME = 'Student';
+
+// Roles in display order; the host is listed once even though they are an attendee
+const ROLES = ['host', 'attending', 'dropIn', 'interested'];
+
+const toEntry = (uid, role, profile, viewerUid, session) => {
+  // Hosts are named on the session itself, so they are never anonymous
+  const anonymous = role !== 'host' && profile?.anonymousOnRosters === true && uid !== viewerUid;
+  const name = profile?.displayName || (role === 'host' ? session.creatorName : null);
+  return {
+    uid,
+    role,
+    displayName: anonymous ? ANONYMOUS_NAME : name || FALLBACK_NAME,
+    courses: anonymous ? [] : profile?.courses || [],
+    anonymous,
+  };
+};
+
+/**
+ * Build the roster for a session the caller is allowed to see.
+ * @param {object} session session document data
+ * @param {string} viewerUid the caller, who always sees their own name
+ * @returns {Promise<{ people: object[], waitlistCount: number, pendingCount: number }>}
+ */
+const buildRoster = async (session, viewerUid) => {
+  const byRole = {
+    host: [session.creatorId],
+    attending: (session.attendees || []).filter((uid) => uid !== session.creatorId),
+    dropIn: session.dropIns || [],
+    interested: session.interested || [],
+  };
+  // Older sessions may lack creatorId, and doc() throws on an empty id
+  ROLES.forEach((role) => {
+    byRole[role] = byRole[role].filter(Boolean);
+  });
+  const uids = [...new Set(ROLES.flatMap((role) => byRole[role]))];
+  // getAll needs at least one reference
+  const docs = uids.length > 0 ? await db.getAll(...uids.map((uid) => db.collection('users').doc(uid))) : [];
+  const profiles = new Map(docs.filter((doc) => doc.exists).map((doc) => [doc.id, doc.data()]));
+
+  const people = ROLES.flatMap((role) =>
+    byRole[role].map((uid) => toEntry(uid, role, profiles.get(uid), viewerUid, session)));
+
+  return {
+    people,
+    waitlistCount: (session.waitlist || []).length,
+    pendingCount: (session.pendingRequests || []).length,
+  };
+};
+
+module.exports = { buildRoster };
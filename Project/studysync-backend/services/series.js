@@ -0,0 +1,19 @@
+/* Helpers for recurring sessions. Occurrences of a series are ordinary
+   session documents sharing a `seriesId`; edits and cancellations can target
+   one occurrence ("this") or it and every later one ("future"). */
+const { db } = require('../firebase');
+
+const SERIES_SCOPES = ['this', 'future'];
+
+// The anchor occurrence and every later, not cancelled occurrence of its series (read in the transaction)
+const getFutureOccurrences = async (transaction, anchor) => {
+  const snapshot = await transaction.get(
+    db.collection('sessions').where('seriesId', '==', anchor.seriesId)
+  );
+  const from = anchor.startTime.toMillis();
+  return snapshot.docs
+    .filter((doc) => doc.data().status !== 'cancelled' && doc.data().startTime.toMillis() >= from)
+    .sort((a, b) => a.data().startTime.toMillis() - b.data().startTime.toMillis());
+};
+
+module.exports = { SERIES_SCOPES, getFutureOccurrences };
@@ -0,0 +1,512 @@
+/* Emulator tests for Project/firestore.rules: every allowed and denied client
+   path, collection by collection.
+   Run from Project/studysync-backend with `npm run test:rules`, which starts
+   the Firestore emulator (Java required) and runs this file against it. */
+const { readFileSync } = require('fs');
+const path = require('path');
+const { describe, test, before, after, beforeEach } = require('node:test');
+const {
+  initializeTestEnvironment,
+  assertSucceeds,
+  assertFails,
+} = require('@firebase/rules-unit-testing');
+const {
+  Timestamp,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  addDoc,
+  collection,
+  query,
+  where,
+} = require('firebase/firestore');
+
+const HOST = 'host-uid';
+const ATTENDEE = 'attendee-uid';
+const STRANGER = 'stranger-uid';
+
+let testEnv;
+
+const db = (uid) => (uid ? testEnv.authenticatedContext(uid) : testEnv.unauthenticatedContext()).firestore();
+
+const sessionData = (overrides = {}) => ({
+  creatorId: HOST,
+  creatorName: 'Host',
+  course: 'CS 124',
+  topic: 'Midterm review',
+  locationName: 'Grainger Library',
+  locationCoords: { latitude: 40.1125, longitude: -88.2269 },
+  startTime: Timestamp.fromMillis(Date.now() + 24 * 60 * 60 * 1000),
+  endTime: null,
+  signupPolicy: 'open',
+  capacity: 4,
+  attendees: [HOST],
+  isFull: false,
+  ...overrides,
+});
+
+// Seed documents as the backend would (rules bypassed)
+const seed = (docPath, data) =>
+  testEnv.withSecurityRulesDisabled((context) => setDoc(doc(context.firestore(), docPath), data));
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-studysync-rules',
+    firestore: {
+      rules: readFileSync(path.join(__dirname, '..', '..', 'firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+after(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+describe('users', () => {
+  const profile = {
+    displayName: 'Attendee',
+    courses: ['CS 124'],
+    anonymousOnRosters: false,
+    privateProfile: { major: 'CS' },
+    expoPushTokens: [],
+  };
+
+  beforeEach(async () => {
+    await seed(`users/${ATTENDEE}`, profile);
+  });
+
+  test('users read and write their own profile', async () => {
+    await assertSucceeds(getDoc(doc(db(ATTENDEE), `users/${ATTENDEE}`)));
+    await assertSucceeds(updateDoc(doc(db(ATTENDEE), `users/${ATTENDEE}`), { anonymousOnRosters: true }));
+    await assertSucceeds(setDoc(doc(db(STRANGER), `users/${STRANGER}`), { ...profile, displayName: 'Stranger' }));
+  });
+
+  test('profiles without roster fields are allowed', async () => {
+    await assertSucceeds(setDoc(doc(db(STRANGER), `users/${STRANGER}`), { expoPushTokens: [] }));
+  });
+
+  test('display names must be 1-50 characters', async () => {
+    const ref = doc(db(ATTENDEE), `users/${ATTENDEE}`);
+    await assertFails(updateDoc(ref, { displayName: '' }));
+    await assertFails(updateDoc(ref, { displayName: 'a'.repeat(51) }));
+    await assertFails(updateDoc(ref, { displayName: 42 }));
+  });
+
+  test('profile fields must have the right shape', async () => {
+    const ref = doc(db(ATTENDEE), `users/${ATTENDEE}`);
+    await assertFails(updateDoc(ref, { courses: 'CS 124' }));
+    await assertFails(updateDoc(ref, { courses: Array.from({ length: 21 }, (_, i) => `CS ${100 + i}`) }));
+    await assertFails(updateDoc(ref, { anonymousOnRosters: 'yes' }));
+    await assertFails(updateDoc(ref, { privateProfile: 'public' }));
+  });
+
+  test("users cannot read or write others' profiles", async () => {
+    await assertFails(getDoc(doc(db(STRANGER), `users/${ATTENDEE}`)));
+    await assertFails(updateDoc(doc(db(STRANGER), `users/${ATTENDEE}`), { expoPushTokens: ['token'] }));
+    await assertFails(setDoc(doc(db(STRANGER), `users/${HOST}`), { expoPushTokens: [] }));
+  });
+
+  test('signed-out users cannot read profiles', async () => {
+    await assertFails(getDoc(doc(db(null), `users/${ATTENDEE}`)));
+  });
+});
+
+describe('sessions: read', () => {
+  test('signed-in users read public sessions', async () => {
+    await seed('sessions/s1', sessionData());
+    await assertSucceeds(getDoc(doc(db(STRANGER), 'sessions/s1')));
+  });
+
+  test('signed-out users cannot read sessions', async () => {
+    await seed('sessions/s1', sessionData());
+    await assertFails(getDoc(doc(db(null), 'sessions/s1')));
+  });
+
+  test('unlisted and invite-only sessions are hidden from non-members', async () => {
+    await seed('sessions/unlisted', sessionData({ visibility: 'unlisted', inviteCode: 'abc123' }));
+    await seed('sessions/invite', sessionData({ visibility: 'invite', inviteCode: 'abc123' }));
+    await assertFails(getDoc(doc(db(STRANGER), 'sessions/unlisted')));
+    await assertFails(getDoc(doc(db(STRANGER), 'sessions/invite')));
+  });
+
+  test('the creator and attendees read invite-only sessions', async () => {
+    await seed('sessions/s1', sessionData({ visibility: 'invite', inviteCode: 'abc123', attendees: [HOST, ATTENDEE] }));
+    await assertSucceeds(getDoc(doc(db(HOST), 'sessions/s1')));
+    await assertSucceeds(getDoc(doc(db(ATTENDEE), 'sessions/s1')));
+  });
+
+  test('interested users and drop-ins read invite-only sessions', async () => {
+    await seed('sessions/s1', sessionData({
+      visibility: 'invite',
+      inviteCode: 'abc123',
+      interested: [STRANGER],
+      dropIns: [ATTENDEE],
+    }));
+    await assertSucceeds(getDoc(doc(db(STRANGER), 'sessions/s1')));
+    await assertSucceeds(getDoc(doc(db(ATTENDEE), 'sessions/s1')));
+  });
+
+  test('waitlisted users and pending requesters read invite-only sessions', async () => {
+    await seed('sessions/s1', sessionData({
+      visibility: 'invite',
+      inviteCode: 'abc123',
+      waitlist: [STRANGER],
+      pendingRequests: [ATTENDEE],
+    }));
+    await assertSucceeds(getDoc(doc(db(STRANGER), 'sessions/s1')));
+    await assertSucceeds(getDoc(doc(db(ATTENDEE), 'sessions/s1')));
+  });
+});
+
+describe('sessions: create', () => {
+  test('users create a session they host and attend', async () => {
+    await assertSucceeds(setDoc(doc(db(HOST), 'sessions/new'), sessionData()));
+  });
+
+  test('signed-out users cannot create sessions', async () => {
+    await assertFails(setDoc(doc(db(null), 'sessions/new'), sessionData()));
+  });
+
+  test('creatorId must be the caller', async () => {
+    await assertFails(setDoc(doc(db(STRANGER), 'sessions/new'), sessionData()));
+  });
+
+  test('new sessions cannot be marked full', async () => {
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ isFull: true })));
+  });
+
+  test('other users cannot be added as attendees', async () => {
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ attendees: [HOST, ATTENDEE] })));
+  });
+
+  test('new sessions cannot start with a waitlist', async () => {
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ waitlist: [ATTENDEE] })));
+  });
+
+  test('new sessions cannot set a status', async () => {
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ status: 'cancelled' })));
+  });
+
+  test('private sessions and invite codes are created through the backend', async () => {
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ visibility: 'invite' })));
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ inviteCode: 'abc123' })));
+  });
+
+  test('endTime must be after startTime', async () => {
+    const startTime = Timestamp.fromMillis(Date.now() + 60 * 60 * 1000);
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ startTime, endTime: startTime })));
+  });
+
+  test('signupPolicy must be a known policy', async () => {
+    await assertFails(setDoc(doc(db(HOST), 'sessions/new'), sessionData({ signupPolicy: 'anyone' })));
+  });
+});
+
+describe('sessions: update', () => {
+  beforeEach(async () => {
+    await seed('sessions/s1', sessionData({ attendees: [HOST, ATTENDEE], waitlist: [] }));
+  });
+
+  test('the creator edits session details', async () => {
+    await assertSucceeds(updateDoc(doc(db(HOST), 'sessions/s1'), { topic: 'Final review', capacity: 6 }));
+  });
+
+  test('attendees cannot edit session details', async () => {
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'sessions/s1'), { topic: 'Final review' }));
+  });
+
+  test('the creator cannot lower capacity below the attendee count', async () => {
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/s1'), { capacity: 1 }));
+  });
+
+  test('the creator cannot change attendees', async () => {
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/s1'), { attendees: [HOST] }));
+  });
+
+  test('the creator cannot cancel directly', async () => {
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/s1'), { status: 'cancelled', cancelReason: 'Sick' }));
+  });
+
+  test('the creator cannot change visibility or the invite code', async () => {
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/s1'), { visibility: 'unlisted' }));
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/s1'), { inviteCode: 'mine' }));
+  });
+
+  test('the creator cannot change isFull', async () => {
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/s1'), { isFull: true }));
+  });
+
+  // Join and leave go through the backend (waitlist, RSVP close, capacity)
+  test('users cannot join by adding themselves to attendees', async () => {
+    await assertFails(updateDoc(doc(db(STRANGER), 'sessions/s1'), {
+      attendees: [HOST, ATTENDEE, STRANGER],
+    }));
+  });
+
+  test('attendees cannot leave by removing themselves from attendees', async () => {
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'sessions/s1'), { attendees: [HOST], isFull: false }));
+  });
+
+  test('users cannot change isFull', async () => {
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'sessions/s1'), { isFull: true }));
+  });
+
+  test('the creator cannot approve requests by editing pendingRequests', async () => {
+    await seed('sessions/required', sessionData({ signupPolicy: 'required', pendingRequests: [STRANGER] }));
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/required'), { pendingRequests: [] }));
+  });
+
+  test('interest and drop-in check-ins go through the backend', async () => {
+    await assertFails(updateDoc(doc(db(STRANGER), 'sessions/s1'), { interested: [STRANGER] }));
+    await assertFails(updateDoc(doc(db(STRANGER), 'sessions/s1'), { dropIns: [STRANGER] }));
+    await assertFails(updateDoc(doc(db(HOST), 'sessions/s1'), { interested: [STRANGER], dropIns: [ATTENDEE] }));
+  });
+
+  test('users cannot join the waitlist directly', async () => {
+    await assertFails(updateDoc(doc(db(STRANGER), 'sessions/s1'), { waitlist: [STRANGER] }));
+  });
+});
+
+describe('sessions: delete', () => {
+  beforeEach(async () => {
+    await seed('sessions/s1', sessionData({ attendees: [HOST, ATTENDEE] }));
+  });
+
+  test('the creator deletes their session', async () => {
+    await assertSucceeds(deleteDoc(doc(db(HOST), 'sessions/s1')));
+  });
+
+  test('attendees cannot delete the session', async () => {
+    await assertFails(deleteDoc(doc(db(ATTENDEE), 'sessions/s1')));
+  });
+});
+
+describe('sessions: joinRequests', () => {
+  beforeEach(async () => {
+    await seed('sessions/s1', sessionData({ signupPolicy: 'required', pendingRequests: [STRANGER] }));
+    await seed(`sessions/s1/joinRequests/${STRANGER}`, {
+      userName: 'Stranger',
+      note: 'Can I join?',
+      status: 'pending',
+      createdAt: Timestamp.now(),
+    });
+  });
+
+  test('requesters read their own request', async () => {
+    await assertSucceeds(getDoc(doc(db(STRANGER), `sessions/s1/joinRequests/${STRANGER}`)));
+  });
+
+  test('the creator reads every request', async () => {
+    await assertSucceeds(getDocs(collection(db(HOST), 'sessions/s1/joinRequests')));
+  });
+
+  test("other users cannot read someone's request", async () => {
+    await assertFails(getDoc(doc(db(ATTENDEE), `sessions/s1/joinRequests/${STRANGER}`)));
+  });
+
+  test('requests are written through the backend only', async () => {
+    await assertFails(setDoc(doc(db(ATTENDEE), `sessions/s1/joinRequests/${ATTENDEE}`), { userId: ATTENDEE }));
+    await assertFails(updateDoc(doc(db(HOST), `sessions/s1/joinRequests/${STRANGER}`), { status: 'approved' }));
+    await assertFails(deleteDoc(doc(db(STRANGER), `sessions/s1/joinRequests/${STRANGER}`)));
+  });
+});
+
+describe('sessions: auditLog', () => {
+  beforeEach(async () => {
+    await seed('sessions/s1', sessionData({ attendees: [HOST, ATTENDEE], status: 'cancelled' }));
+    await seed('sessions/s1/auditLog/e1', {
+      action: 'cancelled',
+      actorId: HOST,
+      reason: 'Sick',
+      changes: [],
+      createdAt: Timestamp.now(),
+    });
+  });
+
+  test('the creator reads the audit log', async () => {
+    await assertSucceeds(getDocs(collection(db(HOST), 'sessions/s1/auditLog')));
+  });
+
+  test('attendees cannot read the audit log', async () => {
+    await assertFails(getDoc(doc(db(ATTENDEE), 'sessions/s1/auditLog/e1')));
+  });
+
+  test('nobody writes audit entries from the client', async () => {
+    await assertFails(addDoc(collection(db(HOST), 'sessions/s1/auditLog'), { action: 'edited', actorId: HOST }));
+    await assertFails(deleteDoc(doc(db(HOST), 'sessions/s1/auditLog/e1')));
+  });
+});
+
+describe('feedbacks', () => {
+  const feedback = (overrides = {}) => ({
+    sessionId: 's1',
+    userId: ATTENDEE,
+    rating: 4,
+    comment: 'Quiet and good Wi-Fi',
+    createdAt: Timestamp.now(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    await seed('sessions/s1', sessionData({ attendees: [HOST, ATTENDEE] }));
+  });
+
+  test('attendees leave feedback as themselves', async () => {
+    await assertSucceeds(addDoc(collection(db(ATTENDEE), 'feedbacks'), feedback()));
+  });
+
+  test('feedback without a comment is allowed', async () => {
+    const { comment: _comment, ...withoutComment } = feedback();
+    await assertSucceeds(addDoc(collection(db(ATTENDEE), 'feedbacks'), withoutComment));
+  });
+
+  test('feedback cannot be left as someone else', async () => {
+    await assertFails(addDoc(collection(db(ATTENDEE), 'feedbacks'), feedback({ userId: HOST })));
+  });
+
+  test('non-attendees cannot leave feedback', async () => {
+    await assertFails(addDoc(collection(db(STRANGER), 'feedbacks'), feedback({ userId: STRANGER })));
+  });
+
+  test('ratings must be whole numbers from 1 to 5', async () => {
+    const feedbacks = collection(db(ATTENDEE), 'feedbacks');
+    await assertFails(addDoc(feedbacks, feedback({ rating: 0 })));
+    await assertFails(addDoc(feedbacks, feedback({ rating: 6 })));
+    await assertFails(addDoc(feedbacks, feedback({ rating: 3.5 })));
+  });
+
+  test('comments are limited to 2000 characters', async () => {
+    await assertFails(addDoc(collection(db(ATTENDEE), 'feedbacks'), feedback({ comment: 'a'.repeat(2001) })));
+  });
+
+  test('users read their own feedback', async () => {
+    await seed('feedbacks/f1', feedback());
+    await assertSucceeds(getDocs(query(collection(db(ATTENDEE), 'feedbacks'), where('userId', '==', ATTENDEE))));
+  });
+
+  test("users cannot read others' feedback", async () => {
+    await seed('feedbacks/f1', feedback());
+    await assertFails(getDoc(doc(db(HOST), 'feedbacks/f1')));
+    await assertFails(getDocs(collection(db(HOST), 'feedbacks')));
+  });
+
+  test('feedback cannot be edited or deleted', async () => {
+    await seed('feedbacks/f1', feedback());
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'feedbacks/f1'), { rating: 5 }));
+    await assertFails(deleteDoc(doc(db(ATTENDEE), 'feedbacks/f1')));
+  });
+});
+
+describe('locationRatings', () => {
+  const review = {
+    userId: ATTENDEE,
+    userName: 'Attendee',
+    rating: 4,
+    reviewText: '',
+    lastSessionId: 's1',
+    timestamp: Timestamp.now(),
+  };
+
+  // Aggregates as services/locationRatings.js writes them
+  beforeEach(async () => {
+    await seed('locationRatings/grainger', {
+      locationId: 'grainger',
+      locationName: 'Grainger Library',
+      locationCoords: { latitude: 40.1125, longitude: -88.2269 },
+      placeId: null,
+      ratingCounts: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 0 },
+      averageRating: 4,
+      totalRatings: 1,
+    });
+    await seed(`locationRatings/grainger/reviews/${ATTENDEE}`, review);
+  });
+
+  test('signed-in users read locations and their reviews', async () => {
+    await assertSucceeds(getDoc(doc(db(STRANGER), 'locationRatings/grainger')));
+    await assertSucceeds(getDocs(collection(db(STRANGER), 'locationRatings/grainger/reviews')));
+  });
+
+  test('signed-out users cannot read ratings', async () => {
+    await assertFails(getDoc(doc(db(null), 'locationRatings/grainger')));
+    await assertFails(getDocs(collection(db(null), 'locationRatings/grainger/reviews')));
+  });
+
+  test('clients cannot write location aggregates', async () => {
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'locationRatings/grainger'), { averageRating: 5 }));
+    await assertFails(setDoc(doc(db(ATTENDEE), 'locationRatings/new-spot'), { averageRating: 5 }));
+    await assertFails(deleteDoc(doc(db(ATTENDEE), 'locationRatings/grainger')));
+  });
+
+  test('clients cannot write reviews, even their own', async () => {
+    await assertFails(setDoc(doc(db(ATTENDEE), `locationRatings/grainger/reviews/${ATTENDEE}`), { ...review, rating: 5 }));
+    await assertFails(setDoc(doc(db(STRANGER), `locationRatings/grainger/reviews/${STRANGER}`), { ...review, userId: STRANGER }));
+    await assertFails(deleteDoc(doc(db(ATTENDEE), `locationRatings/grainger/reviews/${ATTENDEE}`)));
+  });
+});
+
+describe('notifications', () => {
+  beforeEach(async () => {
+    await seed('notifications/n1', {
+      userId: ATTENDEE,
+      type: 'session_updated',
+      title: 'Session updated',
+      body: 'CS 124 moved to 3 PM',
+      read: false,
+      createdAt: Timestamp.now(),
+    });
+  });
+
+  test('recipients read their notifications', async () => {
+    await assertSucceeds(getDocs(query(collection(db(ATTENDEE), 'notifications'), where('userId', '==', ATTENDEE))));
+  });
+
+  test("users cannot read others' notifications", async () => {
+    await assertFails(getDoc(doc(db(HOST), 'notifications/n1')));
+  });
+
+  test('recipients mark a notification read', async () => {
+    await assertSucceeds(updateDoc(doc(db(ATTENDEE), 'notifications/n1'), { read: true }));
+  });
+
+  test('recipients cannot change anything but read', async () => {
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'notifications/n1'), { read: true, title: 'Edited' }));
+  });
+
+  test('notifications cannot be marked unread', async () => {
+    await seed('notifications/n2', { userId: ATTENDEE, type: 'session_updated', read: true });
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'notifications/n2'), { read: false }));
+  });
+
+  test("users cannot mark others' notifications read", async () => {
+    await assertFails(updateDoc(doc(db(HOST), 'notifications/n1'), { read: true }));
+  });
+
+  test('clients cannot create or delete notifications', async () => {
+    await assertFails(addDoc(collection(db(ATTENDEE), 'notifications'), { userId: ATTENDEE, read: false }));
+    await assertFails(deleteDoc(doc(db(ATTENDEE), 'notifications/n1')));
+  });
+});
+
+describe('calendarFeeds', () => {
+  beforeEach(async () => {
+    await seed('calendarFeeds/secret-token', { userId: ATTENDEE, createdAt: Timestamp.now() });
+  });
+
+  test('feed tokens cannot be read, even by their owner', async () => {
+    await assertFails(getDoc(doc(db(ATTENDEE), 'calendarFeeds/secret-token')));
+    await assertFails(getDocs(collection(db(ATTENDEE), 'calendarFeeds')));
+  });
+
+  test('clients cannot create, change or delete feed tokens', async () => {
+    await assertFails(setDoc(doc(db(ATTENDEE), 'calendarFeeds/my-token'), { userId: ATTENDEE }));
+    await assertFails(updateDoc(doc(db(ATTENDEE), 'calendarFeeds/secret-token'), { userId: STRANGER }));
+    await assertFails(deleteDoc(doc(db(ATTENDEE), 'calendarFeeds/secret-token')));
+  });
+});
@@ -1,20 +1,116 @@
-import React, { useRef } from 'react';
+/* Campus map: upcoming public sessions as pins, using the same search and
+   FilterModal filters as the Sessions list (SessionFiltersContext). Nearby
+   pins are grouped into a count bubble when zoomed out (utils/mapClusters.ts);
+   tapping a bubble zooms in, or lists the sessions when they share one spot.
+   A pin's callout shows course, topic, time and how full the session is, and
+   tapping the callout opens the session. The "Study spots" layer adds rated
+   spots from locationRatings, colored by average rating and narrowed by
+   SpotFilterChips (noise, outlets, amenities, ...); tapping one opens its
+   location page (app/location/[id].tsx). */
+
+import React, { useRef, useState, useMemo, useCallback } from 'react';
 import {
   View,
+  Text,
   StyleSheet,
   SafeAreaView,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
 } from 'react-native';
-import MapView, { PROVIDER_GOOGLE } from 'react-native-maps';
+import MapView, { Marker, Callout, PROVIDER_GOOGLE, Region } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter, useFocusEffect } from 'expo-router';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useSessionFilters } from '../contexts/SessionFiltersContext';
+import { usePublicSessions } from '../../hooks/use-public-sessions';
+import { FilterModal } from '../../components/FilterModal';
+import { filterSessions, countActiveFilters } from '../../utils/sessionFilters';
+import { clusterSessions, isSingleSpot, MIN_CLUSTER_DELTA, SessionCluster } from '../../utils/mapClusters';
+import { StudySession, describeAttendance, formatDate, formatTime } from '../../utils/sessions';
+import { getTopRatedLocations, LocationRating, ratingColor, RATED_SPOTS_LIMIT } from '../../utils/locationRatings';
+import { DEFAULT_SPOT_FILTERS, SpotFilters, matchesSpotFilters } from '../../utils/spotFilters';
+import { SpotFilterChips } from '../../components/SpotFilterChips';
+
+// UIUC Main Quad coordinates
+const INITIAL_REGION: Region = {
+  latitude: 40.1106,
+  longitude: -88.2073,
+  latitudeDelta: 0.02,
+  longitudeDelta: 0.02,
+};
+
+// Pin color by fill level: blue without a capacity, then green / amber / red
+const fillColor = (session: StudySession) => {
+  if (!session.capacity) return '#3B82F6';
+  const fill = session.attendees.length / session.capacity;
+  if (fill >= 1) return '#EF4444';
+  return fill >= 0.75 ? '#F59E0B' : '#10B981';
+};
+
+const FillBar: React.FC<{ session: StudySession }> = ({ session }) => {
+  if (!session.capacity) return null;
+  const fill = Math.min(session.attendees.length / session.capacity, 1);
+  return (
+    <View style={styles.fillTrack}>
+      <View style={[styles.fillBar, { width: `${fill * 100}%`, backgroundColor: fillColor(session) }]} />
+    </View>
+  );
+};
 
 export default function CampusMapScreen() {
   const mapRef = useRef<MapView>(null);
-  
-  // UIUC Main Quad coordinates
-  const initialRegion = {
-    latitude: 40.1106,
-    longitude: -88.2073,
-    latitudeDelta: 0.02,
-    longitudeDelta: 0.02,
+  const router = useRouter();
+  const { user } = useAuth();
+  const { sessions } = usePublicSessions(user);
+  const { searchText, setSearchText, filters } = useSessionFilters();
+  const [region, setRegion] = useState<Region>(INITIAL_REGION);
+  const [isFilterModalVisible, setIsFilterModalVisible] = useState(false);
+  // Sessions at one spot, listed under the map after tapping their bubble
+  const [stackedSessions, setStackedSessions] = useState<StudySession[] | null>(null);
+  const [showSpots, setShowSpots] = useState(true);
+  const [ratedSpots, setRatedSpots] = useState<LocationRating[]>([]);
+  const [spotFilters, setSpotFilters] = useState<SpotFilters>(DEFAULT_SPOT_FILTERS);
+
+  // Reload on focus so a rating left elsewhere shows up on return
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      getTopRatedLocations(RATED_SPOTS_LIMIT)
+        .then(spots => setRatedSpots(spots.filter(spot => spot.totalRatings > 0 && spot.locationCoords)))
+        .catch(error => console.error('Error loading rated spots:', error));
+    }, [user])
+  );
+
+  const visibleSessions = useMemo(
+    () => filterSessions(sessions, searchText, filters, user?.uid),
+    [sessions, searchText, filters, user?.uid]
+  );
+  const clusters = useMemo(() => clusterSessions(visibleSessions, region), [visibleSessions, region]);
+  const activeFilterCount = countActiveFilters(filters);
+  const visibleSpots = useMemo(
+    () => ratedSpots.filter(spot => matchesSpotFilters(spot, spotFilters)),
+    [ratedSpots, spotFilters]
+  );
+
+  const openLocation = (spot: LocationRating) => {
+    router.push({ pathname: '/location/[id]', params: { id: spot.locationId } });
+  };
+
+  const openSession = (session: StudySession) => {
+    router.push({ pathname: '/session/[id]', params: { id: session.id } });
+  };
+
+  const handleClusterPress = (cluster: SessionCluster) => {
+    if (isSingleSpot(cluster) || region.latitudeDelta < MIN_CLUSTER_DELTA) {
+      setStackedSessions([...cluster.sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
+      return;
+    }
+    mapRef.current?.fitToCoordinates(cluster.sessions.map(s => s.locationCoords), {
+      edgePadding: { top: 120, right: 60, bottom: 60, left: 60 },
+      animated: true,
+    });
   };
 
   return (
@@ -23,10 +119,144 @@ export default function CampusMapScreen() {
         ref={mapRef}
         provider={PROVIDER_GOOGLE}
         style={styles.map}
-        initialRegion={initialRegion}
+        initialRegion={INITIAL_REGION}
         showsUserLocation={true}
         showsMyLocationButton={true}
-      />
+        onRegionChangeComplete={setRegion}
+        onPress={() => setStackedSessions(null)}
+      >
+        {clusters.map(cluster => {
+          if (cluster.sessions.length > 1) {
+            return (
+              <Marker
+                key={cluster.key}
+                coordinate={cluster.coordinate}
+                onPress={() => handleClusterPress(cluster)}
+                tracksViewChanges={false}
+              >
+                <View style={styles.clusterBubble}>
+                  <Text style={styles.clusterText}>{cluster.sessions.length}</Text>
+                </View>
+              </Marker>
+            );
+          }
+
+          const session = cluster.sessions[0];
+          return (
+            <Marker
+              key={cluster.key}
+              coordinate={session.locationCoords}
+              pinColor={fillColor(session)}
+              onPress={() => setStackedSessions(null)}
+            >
+              <Callout onPress={() => openSession(session)}>
+                <View style={styles.callout}>
+                  <Text style={styles.calloutCourse}>{session.course}</Text>
+                  <Text style={styles.calloutTopic} numberOfLines={2}>{session.topic}</Text>
+                  <Text style={styles.calloutDetail}>
+                    {formatDate(session.startTime)} · {formatTime(session.startTime)}
+                  </Text>
+                  <Text style={styles.calloutDetail}>{describeAttendance(session)}</Text>
+                  <FillBar session={session} />
+                  <Text style={styles.calloutLink}>Tap to open</Text>
+                </View>
+              </Callout>
+            </Marker>
+          );
+        })}
+
+        {showSpots && visibleSpots.map(spot => (
+          <Marker
+            key={spot.locationId}
+            coordinate={spot.locationCoords}
+            onPress={() => openLocation(spot)}
+            tracksViewChanges={false}
+            accessibilityLabel={`${spot.locationName}, rated ${spot.averageRating.toFixed(1)}`}
+          >
+            <View style={[styles.spotBadge, { backgroundColor: ratingColor(spot.averageRating) }]}>
+              <Ionicons name="star" size={12} color="white" />
+              <Text style={styles.spotText}>{spot.averageRating.toFixed(1)}</Text>
+            </View>
+          </Marker>
+        ))}
+      </MapView>
+
+      {/* Same search and filters as the Sessions list */}
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={20} color="#6B7280" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search course or topic"
+          value={searchText}
+          onChangeText={setSearchText}
+          placeholderTextColor="#9CA3AF"
+          accessibilityLabel="Search by course or topic"
+        />
+        {searchText.length > 0 && (
+          <TouchableOpacity onPress={() => setSearchText('')} accessibilityLabel="Clear search">
+            <Ionicons name="close-circle" size={20} color="#6B7280" />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.filterButton}
+          onPress={() => setIsFilterModalVisible(true)}
+          accessibilityLabel="Open filters"
+        >
+          <Ionicons name="options-outline" size={18} color="#3B82F6" />
+          {activeFilterCount > 0 && <Text style={styles.filterCount}>{activeFilterCount}</Text>}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.layerBar}>
+        <TouchableOpacity
+          style={[styles.layerToggle, showSpots && styles.layerToggleActive]}
+          onPress={() => setShowSpots(on => !on)}
+          accessibilityLabel={showSpots ? 'Hide rated study spots' : 'Show rated study spots'}
+        >
+          <Ionicons name={showSpots ? 'star' : 'star-outline'} size={14} color={showSpots ? 'white' : '#F59E0B'} />
+          <Text style={[styles.layerToggleText, showSpots && styles.layerToggleTextActive]}>Study spots</Text>
+        </TouchableOpacity>
+        {showSpots && (
+          <View style={styles.layerFilters}>
+            <SpotFilterChips filters={spotFilters} onChange={setSpotFilters} />
+          </View>
+        )}
+      </View>
+
+      {visibleSessions.length === 0 && (
+        <View style={styles.emptyBadge}>
+          <Text style={styles.emptyText}>No upcoming sessions match your search</Text>
+        </View>
+      )}
+
+      {stackedSessions && (
+        <View style={styles.stackPanel}>
+          <View style={styles.stackHeader}>
+            <Text style={styles.stackTitle} numberOfLines={1}>
+              {stackedSessions.length} sessions at {stackedSessions[0].locationName}
+            </Text>
+            <TouchableOpacity onPress={() => setStackedSessions(null)} accessibilityLabel="Close list">
+              <Ionicons name="close" size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.stackList}>
+            {stackedSessions.map(session => (
+              <TouchableOpacity key={session.id} style={styles.stackRow} onPress={() => openSession(session)}>
+                <View style={[styles.stackDot, { backgroundColor: fillColor(session) }]} />
+                <View style={styles.stackText}>
+                  <Text style={styles.calloutCourse}>{session.course} — {session.topic}</Text>
+                  <Text style={styles.calloutDetail}>
+                    {formatDate(session.startTime)} · {formatTime(session.startTime)} · {describeAttendance(session)}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#9CA3AF" />
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      <FilterModal visible={isFilterModalVisible} onClose={() => setIsFilterModalVisible(false)} />
     </SafeAreaView>
   );
 }
@@ -38,4 +268,203 @@ const styles = StyleSheet.create({
   map: {
     flex: 1,
   },
-});
\ No newline at end of file
+  searchBar: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#EFF6FF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  filterCount: {
+    color: '#3B82F6',
+    fontWeight: '700',
+  },
+  clusterBubble: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: 8,
+    backgroundColor: '#3B82F6',
+    borderWidth: 3,
+    borderColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clusterText: {
+    color: 'white',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  spotBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'white',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  spotText: {
+    color: 'white',
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  layerBar: {
+    position: 'absolute',
+    top: 106,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  layerFilters: {
+    flex: 1,
+  },
+  layerToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    elevation: 2,
+  },
+  layerToggleActive: {
+    backgroundColor: '#F59E0B',
+  },
+  layerToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+  layerToggleTextActive: {
+    color: 'white',
+  },
+  callout: {
+    width: 220,
+    padding: 4,
+  },
+  calloutCourse: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  calloutTopic: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  calloutDetail: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  calloutLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+    marginTop: 6,
+  },
+  fillTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E5E7EB',
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  fillBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  emptyBadge: {
+    position: 'absolute',
+    top: 144,
+    alignSelf: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    elevation: 2,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  stackPanel: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    maxHeight: 260,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  stackHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  stackTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  stackList: {
+    flexGrow: 0,
+  },
+  stackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  stackDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  stackText: {
+    flex: 1,
+  },
+});
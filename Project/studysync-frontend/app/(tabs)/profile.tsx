@@ -19,6 +19,8 @@ import {
   Alert,
   Platform,
   Pressable,
+  Linking,
+  Share,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
@@ -34,6 +36,10 @@ import {
 } from 'firebase/firestore';
 import { FIREBASE_APP, FIREBASE_AUTH } from '../../firebaseConfig';
 import { updateEmail, updatePassword } from 'firebase/auth';
+import { getCalendarFeed } from '../../utils/api';
+import { CancelSessionModal } from '../../components/CancelSessionModal';
+import { JoinRequestsList } from '../../components/JoinRequestsList';
+import { RecurrenceRule, describeRecurrence, groupBySeries } from '../../utils/recurrence';
 
 // Redefine interfaces locally to avoid circular dependencies
 interface LocationCoords {
@@ -55,7 +61,12 @@ interface StudySession {
   signupPolicy: 'required' | 'preferred' | 'open';
   capacity?: number;
   attendees: string[];
+  pendingRequests: string[];
   isFull: boolean;
+  status: 'active' | 'cancelled';
+  cancelReason?: string;
+  seriesId?: string;
+  recurrence?: RecurrenceRule;
   createdAt: Date;
 }
 
@@ -75,6 +86,8 @@ export default function ProfileScreen() {
   const [newEmail, setNewEmail] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [cancellingSession, setCancellingSession] = useState<StudySession | null>(null);
+  const [expandedSeries, setExpandedSeries] = useState<Set<string>>(new Set());
 
   // Fetch sessions created by user
   useEffect(() => {
@@ -105,7 +118,12 @@ export default function ProfileScreen() {
           signupPolicy: data.signupPolicy,
           capacity: data.capacity,
           attendees: data.attendees || [],
+          pendingRequests: data.pendingRequests || [],
           isFull: data.isFull || false,
+          status: data.status === 'cancelled' ? 'cancelled' : 'active',
+          cancelReason: data.cancelReason,
+          seriesId: data.seriesId,
+          recurrence: data.recurrence,
           createdAt,
         };
       });
@@ -146,7 +164,12 @@ export default function ProfileScreen() {
           signupPolicy: data.signupPolicy,
           capacity: data.capacity,
           attendees: data.attendees || [],
+          pendingRequests: data.pendingRequests || [],
           isFull: data.isFull || false,
+          status: data.status === 'cancelled' ? 'cancelled' : 'active',
+          cancelReason: data.cancelReason,
+          seriesId: data.seriesId,
+          recurrence: data.recurrence,
           createdAt,
         };
       });
@@ -192,9 +215,39 @@ export default function ProfileScreen() {
     }
   }, [activeSection, allSessions, createdSessions, joinedSessions, pastSessions]);
 
+  // Occurrences of a recurring session collapse under the first one in the list
+  const currentSessionGroups = React.useMemo(() => groupBySeries(currentSessions), [currentSessions]);
+
+  const toggleSeries = (seriesId: string) => {
+    setExpandedSeries(prev => {
+      const next = new Set(prev);
+      if (next.has(seriesId)) {
+        next.delete(seriesId);
+      } else {
+        next.add(seriesId);
+      }
+      return next;
+    });
+  };
+
+  // Hosted sessions still waiting on approve/decline, soonest first
+  const sessionsWithRequests = React.useMemo(() => createdSessions
+    .filter(s => s.pendingRequests.length > 0 && s.status !== 'cancelled' && !pastSessions.some(p => p.id === s.id))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+  [createdSessions, pastSessions]);
+
+  // Hosts can cancel their own sessions until they are over
+  const canCancel = (session: StudySession): boolean =>
+    session.creatorId === user?.uid
+    && session.status !== 'cancelled'
+    && !pastSessions.some(s => s.id === session.id);
+
   // Compute badges for each session in All view
   const getSessionBadges = (session: StudySession): Array<{ label: string; color: string }> => {
     const badges: Array<{ label: string; color: string }> = [];
+    if (session.status === 'cancelled') {
+      badges.push({ label: 'Cancelled', color: '#EF4444' });
+    }
     const now = Date.now();
     const isPast = session.endTime
       ? session.endTime.getTime() < now
@@ -298,6 +351,33 @@ export default function ProfileScreen() {
       Alert.alert('Error', error.message);
     }  };
 
+  // Calendar feed: one subscription URL that stays in sync with created/joined sessions
+  const shareCalendarFeed = async (rotate: boolean) => {
+    try {
+      const { url, webcalUrl } = await getCalendarFeed(rotate);
+      Alert.alert(
+        rotate ? 'New Calendar Link' : 'Calendar Feed',
+        'Subscribe in Apple Calendar, Outlook or Google Calendar to keep your sessions in sync. Anyone with this link can see your sessions.',
+        [
+          { text: 'Subscribe', onPress: () => Linking.openURL(webcalUrl) },
+          { text: 'Share Link', onPress: () => Share.share({ message: url, url }) },
+          { text: 'Close', style: 'cancel' },
+        ]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleCalendarFeed = () => {
+    Alert.alert('Calendar Feed', 'Get your personal calendar subscription link.', [
+      { text: 'Get Link', onPress: () => shareCalendarFeed(false) },
+      // Rotating invalidates old links, e.g. if one was shared by mistake
+      { text: 'Reset Link', style: 'destructive', onPress: () => shareCalendarFeed(true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   if (!user) {
     return (
       <SafeAreaView style={styles.container}>
@@ -366,12 +446,36 @@ export default function ProfileScreen() {
             <Ionicons name="lock-closed-outline" size={20} color="#3B82F6" />
             <Text style={styles.actionButtonText}>Update Password</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={handleCalendarFeed}>
+            <Ionicons name="calendar-outline" size={20} color="#3B82F6" />
+            <Text style={styles.actionButtonText}>Calendar Feed</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/profile-settings')}>
+            <Ionicons name="person-outline" size={20} color="#3B82F6" />
+            <Text style={styles.actionButtonText}>Edit Profile</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/notification-settings')}>
+            <Ionicons name="notifications-outline" size={20} color="#3B82F6" />
+            <Text style={styles.actionButtonText}>Notification Settings</Text>
+          </TouchableOpacity>
           <TouchableOpacity style={[styles.actionButton, styles.logoutButton]} onPress={handleLogout}>
             <Ionicons name="log-out-outline" size={20} color="#EF4444" />
             <Text style={[styles.actionButtonText, { color: '#EF4444' }]}>Log Out</Text>
           </TouchableOpacity>
         </View>
 
+        {/* Join requests for the user's "required" sessions */}
+        {sessionsWithRequests.length > 0 && (
+          <View style={styles.requestsSection}>
+            <Text style={styles.requestsTitle}>
+              Join Requests ({sessionsWithRequests.reduce((sum, s) => sum + s.pendingRequests.length, 0)})
+            </Text>
+            {sessionsWithRequests.map(session => (
+              <JoinRequestsList key={session.id} session={session} showSessionTitle />
+            ))}
+          </View>
+        )}
+
         {/* Section Toggle Buttons */}
         <ScrollView
           horizontal
@@ -401,7 +505,7 @@ export default function ProfileScreen() {
 
         {/* Session List */}
         <View style={styles.sessionListContainer}>
-          {currentSessions.length === 0 ? (
+          {currentSessionGroups.length === 0 ? (
             <View style={styles.emptyStateContainer}>
               <Ionicons name="folder-open-outline" size={48} color="#9CA3AF" />
               <Text style={styles.emptyStateText}>
@@ -412,17 +516,28 @@ export default function ProfileScreen() {
               </Text>
             </View>
           ) : (
-            currentSessions.map(session => (
-              <SessionCardCompact
-                key={session.id}
-                session={session}
-                badges={activeSection === 'All' ? getSessionBadges(session) : undefined}
-              />
-            ))
+            currentSessionGroups.map(([first, ...others]) => {
+              const expanded = !!first.seriesId && expandedSeries.has(first.seriesId);
+              return [first, ...(expanded ? others : [])].map((session, index) => (
+                <SessionCardCompact
+                  key={session.id}
+                  session={session}
+                  badges={activeSection === 'All'
+                    ? getSessionBadges(session)
+                    : session.status === 'cancelled' ? [{ label: 'Cancelled', color: '#EF4444' }] : undefined}
+                  onCancel={canCancel(session) ? setCancellingSession : undefined}
+                  series={index === 0 && first.seriesId
+                    ? { otherCount: others.length, expanded, onToggle: () => toggleSeries(first.seriesId!) }
+                    : undefined}
+                />
+              ));
+            })
           )}
         </View>
       </ScrollView>
 
+      <CancelSessionModal session={cancellingSession} onClose={() => setCancellingSession(null)} />
+
       {/* Update Email Modal */}
       <Modal visible={showEmailModal} transparent animationType="slide">
         <Pressable style={styles.modalBackdrop} onPress={() => setShowEmailModal(false)}>
@@ -489,7 +604,9 @@ export default function ProfileScreen() {
 const SessionCardCompact: React.FC<{
   session: StudySession;
   badges?: Array<{ label: string; color: string }>;
-}> = ({ session, badges }) => {
+  onCancel?: (session: StudySession) => void;
+  series?: { otherCount: number; expanded: boolean; onToggle: () => void };
+}> = ({ session, badges, onCancel, series }) => {
   const formatTime = (date: Date | null | undefined): string => {
     if (!date) return 'TBD';
     return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
@@ -526,6 +643,29 @@ const SessionCardCompact: React.FC<{
         <Ionicons name="location-outline" size={16} color="#6B7280" />
         <Text style={styles.compactInfoText}>{session.locationName}</Text>
       </View>
+      {session.recurrence && (
+        <View style={styles.compactInfo}>
+          <Ionicons name="repeat-outline" size={16} color="#6B7280" />
+          <Text style={styles.compactInfoText}>{describeRecurrence(session.recurrence)}</Text>
+        </View>
+      )}
+      {series && series.otherCount > 0 && (
+        <TouchableOpacity style={styles.compactActionButton} onPress={series.onToggle}>
+          <Ionicons name={series.expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#3B82F6" />
+          <Text style={[styles.compactActionText, { color: '#3B82F6' }]}>
+            {series.expanded ? 'Hide other dates' : `+${series.otherCount} more in this series`}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {session.status === 'cancelled' && session.cancelReason && (
+        <Text style={styles.cancelReasonText}>Cancelled: {session.cancelReason}</Text>
+      )}
+      {onCancel && (
+        <TouchableOpacity style={styles.compactActionButton} onPress={() => onCancel(session)}>
+          <Ionicons name="close-circle-outline" size={16} color="#EF4444" />
+          <Text style={styles.compactActionText}>Cancel Session</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -642,6 +782,20 @@ const styles = StyleSheet.create({
     color: '#3B82F6',
     marginLeft: 12,
   },
+  requestsSection: {
+    marginHorizontal: 16,
+    marginBottom: 20,
+    padding: 16,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  requestsTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
   sectionToggleContainer: {
     paddingHorizontal: 16,
     paddingVertical: 12,
@@ -732,6 +886,23 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginLeft: 8,
   },
+  cancelReasonText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 6,
+  },
+  compactActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    gap: 4,
+  },
+  compactActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
   modalBackdrop: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -7,7 +7,12 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useNotificationInbox } from '@/hooks/use-notification-inbox';
+import { useSessionReminders } from '@/hooks/use-session-reminders';
+import { usePushRegistration } from '@/hooks/use-push-registration';
+import { useNotificationNavigation } from '@/hooks/use-notification-navigation';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { SessionFiltersProvider } from './contexts/SessionFiltersContext';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -19,6 +24,15 @@ function RootLayoutNav() {
   const segments = useSegments();
   const router = useRouter();
 
+  // Surface backend messages (waitlist promotions etc.) as local notifications
+  useNotificationInbox(user);
+  // Reconcile scheduled reminders with the sessions the user currently attends
+  useSessionReminders(user);
+  // Let the backend push host changes and promotions while the app is closed
+  usePushRegistration(user);
+  // Tapping a reminder or push opens that session
+  useNotificationNavigation(user);
+
   useEffect(() => {
     if (loading) return;
 
@@ -39,6 +53,11 @@ function RootLayoutNav() {
         <Stack.Screen name="login" options={{ headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="notification-settings" options={{ title: 'Notifications' }} />
+        <Stack.Screen name="profile-settings" options={{ title: 'Edit Profile' }} />
+        <Stack.Screen name="session/[id]" options={{ title: 'Session' }} />
+        <Stack.Screen name="invite/[code]" options={{ title: 'Invite' }} />
+        <Stack.Screen name="location/[id]" options={{ title: 'Study Spot' }} />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
@@ -48,7 +67,9 @@ function RootLayoutNav() {
 export default function RootLayout() {
   return (
     <AuthProvider>
-      <RootLayoutNav />
+      <SessionFiltersProvider>
+        <RootLayoutNav />
+      </SessionFiltersProvider>
     </AuthProvider>
   );
 }
\ No newline at end of file
@@ -8,6 +8,8 @@ import {
   updateProfile
 } from 'firebase/auth';
 import { FIREBASE_AUTH } from '../../firebaseConfig';
+import { unregisterPushToken } from '../../utils/pushTokens';
+import { createUserProfile, ensureUserProfile } from '../../utils/userProfile';
 
 
 interface AuthContextType {
@@ -36,6 +38,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const unsubscribe = onAuthStateChanged(FIREBASE_AUTH, (user) => {
       setUser(user);
       setLoading(false);
+      if (user) {
+        ensureUserProfile(user).catch(error => console.error('Error creating profile:', error));
+      }
     });
 
     return unsubscribe;
@@ -44,6 +49,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const signUp = async (email: string, password: string, displayName: string) => {
     const userCredential = await createUserWithEmailAndPassword(FIREBASE_AUTH, email, password);
     await updateProfile(userCredential.user, { displayName });
+    // users/{uid} holds the name other people see on session rosters
+    await createUserProfile(userCredential.user, displayName);
   };
 
   const signIn = async (email: string, password: string) => {
@@ -51,6 +58,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const logOut = async () => {
+    // Stop pushes to this device for the account that is leaving
+    if (FIREBASE_AUTH.currentUser) {
+      await unregisterPushToken(FIREBASE_AUTH.currentUser.uid);
+    }
     await signOut(FIREBASE_AUTH);
   };
 
@@ -0,0 +1,41 @@
+/* Search text and FilterModal filters, shared by the Sessions list and the
+   Campus map so switching tabs keeps the same sessions in view. */
+
+import React, { createContext, useState, useContext } from 'react';
+import { SessionFilters, DEFAULT_SESSION_FILTERS } from '../../utils/sessionFilters';
+
+interface SessionFiltersContextType {
+  searchText: string;
+  setSearchText: (text: string) => void;
+  filters: SessionFilters;
+  updateFilters: (changes: Partial<SessionFilters>) => void;
+  resetFilters: () => void;
+}
+
+const SessionFiltersContext = createContext<SessionFiltersContextType>({
+  searchText: '',
+  setSearchText: () => {},
+  filters: DEFAULT_SESSION_FILTERS,
+  updateFilters: () => {},
+  resetFilters: () => {},
+});
+
+export const useSessionFilters = () => useContext(SessionFiltersContext);
+
+export const SessionFiltersProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [searchText, setSearchText] = useState('');
+  const [filters, setFilters] = useState<SessionFilters>(DEFAULT_SESSION_FILTERS);
+
+  const updateFilters = (changes: Partial<SessionFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  // Search text is separate from "Reset Filters", as it was on the list
+  const resetFilters = () => setFilters(DEFAULT_SESSION_FILTERS);
+
+  return (
+    <SessionFiltersContext.Provider value={{ searchText, setSearchText, filters, updateFilters, resetFilters }}>
+      {children}
+    </SessionFiltersContext.Provider>
+  );
+};
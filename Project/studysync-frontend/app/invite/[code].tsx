@@ -0,0 +1,230 @@
+/* Invite link landing screen (studysync://invite/<code>).
+   Unlisted and invite-only sessions are hidden from the list and from
+   non-members in Firestore, so the backend resolves the code to its
+   upcoming sessions. Joining passes the code along, which invite-only
+   sessions require; afterwards the session opens like any other. */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+import { useAuth } from '../contexts/AuthContext';
+import { getInvite, joinSession, joinWaitlist, InviteSession } from '../../utils/api';
+import { formatTime, formatDate, describeAttendance } from '../../utils/sessions';
+import { scheduleSessionReminder } from '../../notificationService';
+import { JoinRequestModal } from '../../components/JoinRequestModal';
+
+export default function InviteScreen() {
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const { user } = useAuth();
+  const router = useRouter();
+  const [sessions, setSessions] = useState<InviteSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [requestingSession, setRequestingSession] = useState<InviteSession | null>(null);
+
+  useEffect(() => {
+    if (!user || !code) return;
+    getInvite(code)
+      .then(({ sessions }) => setSessions(sessions))
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not open this invite link.'))
+      .finally(() => setLoading(false));
+  }, [user, code]);
+
+  const openSession = (sessionId: string) => {
+    router.replace({ pathname: '/session/[id]', params: { id: sessionId } });
+  };
+
+  const handleJoin = async (session: InviteSession) => {
+    // Host-approved sessions take a request instead
+    if (session.signupPolicy === 'required') {
+      setRequestingSession(session);
+      return;
+    }
+    setWorkingId(session.id);
+    try {
+      if (session.isFull) {
+        const { position } = await joinWaitlist(session.id, code);
+        Alert.alert('Waitlist', `You're #${position} on the waitlist. We'll notify you if a spot opens up.`);
+      } else {
+        await joinSession(session.id, code);
+        scheduleSessionReminder(session.startTime, session.id, session)
+          .catch(e => console.error('Error scheduling reminder:', e));
+      }
+      openSession(session.id);
+    } catch (e) {
+      console.error('Failed to join from invite:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to join session');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (error || sessions.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="link-outline" size={48} color="#9CA3AF" />
+        <Text style={styles.emptyText}>{error ?? 'This invite link has no upcoming sessions.'}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Text style={styles.heading}>You&apos;re invited</Text>
+      <Text style={styles.subheading}>
+        {sessions[0].creatorName} shared {sessions.length > 1 ? `${sessions.length} upcoming sessions` : 'a study session'} with you.
+      </Text>
+
+      {sessions.map(session => {
+        const start = new Date(session.startTime);
+        const isMember = !!user && [...session.attendees, ...session.waitlist, ...session.pendingRequests].includes(user.uid);
+        const joinLabel = session.signupPolicy === 'required'
+          ? 'Request to Join'
+          : session.isFull ? 'Session Full — Join Waitlist'
+          : session.signupPolicy === 'preferred' ? 'RSVP' : 'Join Session';
+        const attendance = describeAttendance({ ...session, capacity: session.capacity ?? undefined });
+
+        return (
+          <View key={session.id} style={styles.card}>
+            <Text style={styles.course}>{session.course}</Text>
+            <Text style={styles.topic}>{session.topic}</Text>
+            <View style={styles.detailRow}>
+              <Ionicons name="calendar-outline" size={18} color="#3B82F6" />
+              <Text style={styles.detailText}>{formatDate(start)} at {formatTime(start)}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Ionicons name="location-sharp" size={18} color="#3B82F6" />
+              <Text style={styles.detailText}>
+                {session.locationName}{session.locationDetails ? ` • ${session.locationDetails}` : ''}
+              </Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Ionicons name="people-outline" size={18} color="#3B82F6" />
+              <Text style={styles.detailText}>{attendance}</Text>
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.button,
+                isMember && { backgroundColor: '#10B981' },
+                !isMember && session.isFull && session.signupPolicy !== 'required' && { backgroundColor: '#F59E0B' },
+              ]}
+              onPress={() => (isMember ? openSession(session.id) : handleJoin(session))}
+              disabled={workingId !== null}
+            >
+              {workingId === session.id ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.buttonText}>
+                  {isMember ? 'View Session' : joinLabel}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      <JoinRequestModal
+        session={requestingSession}
+        inviteCode={code}
+        onClose={() => setRequestingSession(null)}
+        onRequested={() => requestingSession && openSession(requestingSession.id)}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#1F2937',
+  },
+  subheading: {
+    fontSize: 15,
+    color: '#6B7280',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    marginBottom: 16,
+  },
+  course: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#3B82F6',
+  },
+  topic: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 3,
+  },
+  detailText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#374151',
+  },
+  button: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    padding: 13,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
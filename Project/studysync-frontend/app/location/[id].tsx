@@ -0,0 +1,423 @@
+/* Location page for a rated study spot, opened from its pin on the Campus
+   map or from the rating row on a session. Shows the average rating, how
+   the ratings are spread across 1-5 stars, the average detail scores and
+   amenity tags, the reviews (newest first, a page at a time), and the
+   upcoming public sessions held at the same spot. */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+
+import { useAuth } from '../contexts/AuthContext';
+import { usePublicSessions } from '../../hooks/use-public-sessions';
+import {
+  generateLocationId,
+  getLocationRating,
+  getLocationReviews,
+  LocationRating,
+  UserRating,
+  ratingColor,
+  LOCATION_ATTRIBUTES,
+  AMENITY_TAGS,
+} from '../../utils/locationRatings';
+import { filterSessions, DEFAULT_SESSION_FILTERS } from '../../utils/sessionFilters';
+import { describeAttendance, formatDate, formatTime, openGoogleMaps } from '../../utils/sessions';
+import { StarRating } from '../../components/StarRating';
+
+export default function LocationScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { sessions } = usePublicSessions(user);
+  const [location, setLocation] = useState<LocationRating | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reviews, setReviews] = useState<UserRating[]>([]);
+  // Last review loaded; null when every page is loaded
+  const [reviewCursor, setReviewCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [loadingReviews, setLoadingReviews] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    Promise.all([getLocationRating(id), getLocationReviews(id)])
+      .then(([rating, page]) => {
+        setLocation(rating);
+        setReviews(page.reviews);
+        setReviewCursor(page.cursor);
+      })
+      .catch(error => console.error('Error loading location:', error))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  const loadMoreReviews = async () => {
+    if (!id || !reviewCursor || loadingReviews) return;
+    setLoadingReviews(true);
+    try {
+      const page = await getLocationReviews(id, reviewCursor);
+      setReviews(prev => [...prev, ...page.reviews]);
+      setReviewCursor(page.cursor);
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    } finally {
+      setLoadingReviews(false);
+    }
+  };
+
+  // Sessions are keyed by name + coordinates (as FeedbackModal rates them),
+  // so also match on that key when the spot has a Google place ID
+  const upcomingSessions = useMemo(() => {
+    if (!location) return [];
+    const keys = new Set([location.locationId]);
+    if (location.locationName && location.locationCoords) {
+      keys.add(generateLocationId(undefined, location.locationName, location.locationCoords));
+    }
+    return filterSessions(sessions, '', DEFAULT_SESSION_FILTERS, user?.uid)
+      .filter(s => s.locationName && keys.has(generateLocationId(undefined, s.locationName, s.locationCoords)))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }, [location, sessions, user?.uid]);
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (!location) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: 'Study Spot' }} />
+        <Ionicons name="alert-circle-outline" size={48} color="#9CA3AF" />
+        <Text style={styles.emptyText}>No ratings for this spot yet.</Text>
+      </View>
+    );
+  }
+
+  const maxCount = Math.max(...location.ratingCounts, 1);
+  const scoredAttributes = LOCATION_ATTRIBUTES.filter(a => location.attributeAverages[a.key] !== undefined);
+  const taggedAmenities = AMENITY_TAGS.filter(tag => (location.amenityCounts[tag.key] ?? 0) > 0);
+  const amenityLabel = (key: string) => AMENITY_TAGS.find(tag => tag.key === key)?.label ?? key;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: location.locationName }} />
+
+      <Text style={styles.name}>{location.locationName}</Text>
+      <View style={styles.summaryRow}>
+        <Text style={[styles.average, { color: ratingColor(location.averageRating) }]}>
+          {location.averageRating.toFixed(1)}
+        </Text>
+        <View>
+          <StarRating rating={Math.round(location.averageRating)} size={20} />
+          <Text style={styles.mutedText}>
+            {location.totalRatings} rating{location.totalRatings === 1 ? '' : 's'}
+          </Text>
+        </View>
+      </View>
+      {location.locationCoords && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => openGoogleMaps(location.locationCoords)}>
+          <Ionicons name="navigate-outline" size={18} color="#2563EB" />
+          <Text style={styles.secondaryButtonText}>Directions</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Rating distribution, 5 stars first */}
+      <Text style={styles.sectionTitle}>Ratings</Text>
+      <View style={styles.card}>
+        {[5, 4, 3, 2, 1].map(star => {
+          const count = location.ratingCounts[star - 1];
+          return (
+            <View key={star} style={styles.distributionRow}>
+              <Text style={styles.distributionLabel}>{star}</Text>
+              <Ionicons name="star" size={14} color="#F59E0B" />
+              <View style={styles.distributionTrack}>
+                <View style={[styles.distributionBar, { width: `${(count / maxCount) * 100}%` }]} />
+              </View>
+              <Text style={styles.distributionCount}>{count}</Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Detail scores and amenities from reviews */}
+      {(scoredAttributes.length > 0 || taggedAmenities.length > 0) && (
+        <>
+          <Text style={styles.sectionTitle}>Details</Text>
+          <View style={styles.card}>
+            {scoredAttributes.map(attribute => {
+              const average = location.attributeAverages[attribute.key]!;
+              return (
+                <View key={attribute.key} style={styles.attributeRow}>
+                  <Text style={styles.attributeLabel}>{attribute.label}</Text>
+                  <View style={styles.distributionTrack}>
+                    <View style={[styles.attributeBar, { width: `${(average / 5) * 100}%` }]} />
+                  </View>
+                  <Text style={styles.attributeValue}>
+                    {average.toFixed(1)} · {average <= 2.5 ? attribute.low : average >= 3.5 ? attribute.high : 'Mixed'}
+                  </Text>
+                </View>
+              );
+            })}
+            {taggedAmenities.length > 0 && (
+              <View style={styles.amenityContainer}>
+                {taggedAmenities.map(tag => (
+                  <View key={tag.key} style={styles.amenityChip}>
+                    <Text style={styles.amenityChipText}>
+                      {tag.label} · {location.amenityCounts[tag.key]}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* Upcoming sessions here */}
+      <Text style={styles.sectionTitle}>Upcoming Sessions</Text>
+      <View style={styles.card}>
+        {upcomingSessions.length === 0 ? (
+          <Text style={styles.mutedText}>No upcoming sessions at this spot</Text>
+        ) : (
+          upcomingSessions.map(session => (
+            <TouchableOpacity
+              key={session.id}
+              style={styles.sessionRow}
+              onPress={() => router.push({ pathname: '/session/[id]', params: { id: session.id } })}
+            >
+              <View style={styles.sessionText}>
+                <Text style={styles.sessionTitle}>{session.course} — {session.topic}</Text>
+                <Text style={styles.mutedText}>
+                  {formatDate(session.startTime)} · {formatTime(session.startTime)} · {describeAttendance(session)}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color="#9CA3AF" />
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+
+      {/* Reviews, newest first */}
+      <Text style={styles.sectionTitle}>Reviews</Text>
+      <View style={styles.card}>
+        {reviews.map(review => (
+          <View key={review.userId} style={styles.reviewRow}>
+            <View style={styles.reviewHeader}>
+              <Text style={styles.reviewAuthor}>{review.userName || 'Student'}</Text>
+              <Text style={styles.mutedText}>{formatDate(review.timestamp)}</Text>
+            </View>
+            <StarRating rating={review.rating} size={14} />
+            {review.reviewText ? <Text style={styles.reviewText}>{review.reviewText}</Text> : null}
+            {review.amenities.length > 0 && (
+              <Text style={styles.mutedText}>{review.amenities.map(amenityLabel).join(' · ')}</Text>
+            )}
+          </View>
+        ))}
+        {reviewCursor && (
+          <TouchableOpacity style={styles.moreButton} onPress={loadMoreReviews} disabled={loadingReviews}>
+            {loadingReviews ? (
+              <ActivityIndicator color="#3B82F6" />
+            ) : (
+              <Text style={styles.moreButtonText}>Show more reviews</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  average: {
+    fontSize: 40,
+    fontWeight: '800',
+  },
+  mutedText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    marginBottom: 16,
+  },
+  secondaryButtonText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    marginBottom: 16,
+  },
+  distributionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 3,
+  },
+  distributionLabel: {
+    width: 12,
+    fontSize: 14,
+    color: '#374151',
+    textAlign: 'right',
+  },
+  distributionTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  distributionBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F59E0B',
+  },
+  distributionCount: {
+    width: 28,
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'right',
+  },
+  attributeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  attributeLabel: {
+    width: 64,
+    fontSize: 14,
+    color: '#374151',
+  },
+  attributeBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#3B82F6',
+  },
+  attributeValue: {
+    width: 120,
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  amenityContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  amenityChip: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  amenityChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#92400E',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  sessionText: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  reviewRow: {
+    gap: 4,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  reviewAuthor: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  reviewText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  moreButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  moreButtonText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,408 @@
+/* Notification settings, opened from Profile.
+   Reminder lead times, per-category opt-outs, quiet hours and the courses to
+   hear about new sessions in. Saving updates this device (reminders are
+   rescheduled right away) and users/{uid} for the backend. */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useAuth } from './contexts/AuthContext';
+import {
+  NotificationPreferences,
+  NotificationCategory,
+  LEAD_TIME_OPTIONS,
+  CATEGORY_OPTIONS,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  loadNotificationPreferences,
+  fetchRemoteNotificationPreferences,
+  saveNotificationPreferences,
+  parseClockTime,
+  courseKey,
+} from '../utils/notificationPreferences';
+
+export default function NotificationSettingsScreen() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [newCourse, setNewCourse] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      // Settings saved on another device win over this device's copy
+      const remote = await fetchRemoteNotificationPreferences(user.uid).catch(() => null);
+      setPreferences(remote ?? await loadNotificationPreferences());
+      setLoading(false);
+    };
+    load();
+  }, [user]);
+
+  const toggleCategory = (category: NotificationCategory, enabled: boolean) => {
+    setPreferences(prev => ({ ...prev, categories: { ...prev.categories, [category]: enabled } }));
+  };
+
+  const toggleLeadTime = (minutes: number) => {
+    setPreferences(prev => {
+      const selected = prev.leadTimes.includes(minutes);
+      // At least one lead time; turn off "Session reminders" to get none
+      if (selected && prev.leadTimes.length === 1) return prev;
+      return {
+        ...prev,
+        leadTimes: selected
+          ? prev.leadTimes.filter(m => m !== minutes)
+          : [...prev.leadTimes, minutes].sort((a, b) => b - a),
+      };
+    });
+  };
+
+  const addCourse = () => {
+    const course = newCourse.trim();
+    if (!course) return;
+    if (preferences.courses.some(c => courseKey(c) === courseKey(course))) {
+      setNewCourse('');
+      return;
+    }
+    setPreferences(prev => ({ ...prev, courses: [...prev.courses, course] }));
+    setNewCourse('');
+  };
+
+  const removeCourse = (course: string) => {
+    setPreferences(prev => ({ ...prev, courses: prev.courses.filter(c => c !== course) }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const { quietHours } = preferences;
+    if (quietHours.enabled && (parseClockTime(quietHours.start) === null || parseClockTime(quietHours.end) === null)) {
+      Alert.alert('Invalid Quiet Hours', 'Enter quiet hours as HH:MM in 24-hour time, e.g. 22:00 and 07:00.');
+      return;
+    }
+    if (preferences.categories.newSessions && preferences.courses.length === 0) {
+      Alert.alert('No Courses', 'Add at least one course to hear about new sessions, or turn that notification off.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveNotificationPreferences(user.uid, preferences);
+      Alert.alert('Saved', 'Your notification settings have been updated.');
+      router.back();
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      Alert.alert('Error', 'Could not save your settings. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      {/* Categories */}
+      <Text style={styles.sectionTitle}>Notify me about</Text>
+      <View style={styles.card}>
+        {CATEGORY_OPTIONS.map((option, index) => (
+          <View
+            key={option.value}
+            style={[styles.row, index < CATEGORY_OPTIONS.length - 1 && styles.rowDivider]}
+          >
+            <View style={styles.rowText}>
+              <Text style={styles.rowLabel}>{option.label}</Text>
+              <Text style={styles.rowDescription}>{option.description}</Text>
+            </View>
+            <Switch
+              value={preferences.categories[option.value]}
+              onValueChange={enabled => toggleCategory(option.value, enabled)}
+              trackColor={{ false: '#D1D5DB', true: '#3B82F6' }}
+            />
+          </View>
+        ))}
+      </View>
+
+      {/* Reminder lead times */}
+      {preferences.categories.reminders && (
+        <>
+          <Text style={styles.sectionTitle}>Remind me before a session</Text>
+          <View style={styles.card}>
+            <View style={styles.chipRow}>
+              {LEAD_TIME_OPTIONS.map(option => {
+                const selected = preferences.leadTimes.includes(option.minutes);
+                return (
+                  <TouchableOpacity
+                    key={option.minutes}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => toggleLeadTime(option.minutes)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.hint}>Pick one or more. Reminders show the course, topic and location.</Text>
+          </View>
+        </>
+      )}
+
+      {/* My courses */}
+      {preferences.categories.newSessions && (
+        <>
+          <Text style={styles.sectionTitle}>My courses</Text>
+          <View style={styles.card}>
+            <View style={styles.courseInputRow}>
+              <TextInput
+                style={[styles.input, styles.courseInput]}
+                placeholder="e.g. CS 124"
+                placeholderTextColor="#9CA3AF"
+                value={newCourse}
+                onChangeText={setNewCourse}
+                onSubmitEditing={addCourse}
+                autoCapitalize="characters"
+                returnKeyType="done"
+              />
+              <TouchableOpacity style={styles.addButton} onPress={addCourse}>
+                <Ionicons name="add" size={22} color="white" />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.chipRow}>
+              {preferences.courses.map(course => (
+                <TouchableOpacity
+                  key={course}
+                  style={[styles.chip, styles.chipSelected, styles.courseChip]}
+                  onPress={() => removeCourse(course)}
+                >
+                  <Text style={[styles.chipText, styles.chipTextSelected]}>{course}</Text>
+                  <Ionicons name="close" size={14} color="white" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </>
+      )}
+
+      {/* Quiet hours */}
+      <Text style={styles.sectionTitle}>Quiet hours</Text>
+      <View style={styles.card}>
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.rowLabel}>Pause notifications</Text>
+            <Text style={styles.rowDescription}>
+              Reminders that would arrive now are sent just before quiet hours start
+            </Text>
+          </View>
+          <Switch
+            value={preferences.quietHours.enabled}
+            onValueChange={enabled =>
+              setPreferences(prev => ({ ...prev, quietHours: { ...prev.quietHours, enabled } }))
+            }
+            trackColor={{ false: '#D1D5DB', true: '#3B82F6' }}
+          />
+        </View>
+        {preferences.quietHours.enabled && (
+          <View style={styles.quietHoursRow}>
+            <View style={styles.quietHoursField}>
+              <Text style={styles.label}>From</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="22:00"
+                placeholderTextColor="#9CA3AF"
+                value={preferences.quietHours.start}
+                onChangeText={start =>
+                  setPreferences(prev => ({ ...prev, quietHours: { ...prev.quietHours, start } }))
+                }
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+            <View style={styles.quietHoursField}>
+              <Text style={styles.label}>To</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="07:00"
+                placeholderTextColor="#9CA3AF"
+                value={preferences.quietHours.end}
+                onChangeText={end =>
+                  setPreferences(prev => ({ ...prev, quietHours: { ...prev.quietHours, end } }))
+                }
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          </View>
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator color="white" />
+        ) : (
+          <Text style={styles.saveButtonText}>Save Settings</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 30,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  rowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#F9FAFB',
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  courseChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 10,
+  },
+  courseInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  courseInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  addButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    padding: 10,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  quietHoursRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  quietHoursField: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
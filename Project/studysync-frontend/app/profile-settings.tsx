@@ -0,0 +1,298 @@
+/* Edit Profile, opened from Profile.
+   The display name and courses shown on session rosters, and the switch to
+   appear there as "Anonymous student". Saved to users/{uid}; the name is
+   also copied to the Firebase Auth profile, which new sessions use as
+   creatorName. */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { updateProfile } from 'firebase/auth';
+import { useAuth } from './contexts/AuthContext';
+import {
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_PROFILE_COURSES,
+  fetchUserProfile,
+  saveUserProfile,
+} from '../utils/userProfile';
+import { courseKey } from '../utils/notificationPreferences';
+import { Avatar } from '../components/Avatar';
+
+export default function ProfileSettingsScreen() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [displayName, setDisplayName] = useState('');
+  const [courses, setCourses] = useState<string[]>([]);
+  const [anonymousOnRosters, setAnonymousOnRosters] = useState(false);
+  const [newCourse, setNewCourse] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchUserProfile(user)
+      .then(profile => {
+        setDisplayName(profile.displayName);
+        setCourses(profile.courses);
+        setAnonymousOnRosters(profile.anonymousOnRosters);
+      })
+      .catch(error => console.error('Error loading profile:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const addCourse = () => {
+    const course = newCourse.trim();
+    setNewCourse('');
+    if (!course || courses.some(c => courseKey(c) === courseKey(course))) return;
+    if (courses.length >= MAX_PROFILE_COURSES) {
+      Alert.alert('Too Many Courses', `You can list up to ${MAX_PROFILE_COURSES} courses.`);
+      return;
+    }
+    setCourses(prev => [...prev, course]);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const name = displayName.trim();
+    if (!name) {
+      Alert.alert('Name Required', 'Enter the name other students will see.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveUserProfile(user.uid, { displayName: name, courses, anonymousOnRosters });
+      if (name !== user.displayName) {
+        await updateProfile(user, { displayName: name });
+      }
+      Alert.alert('Saved', 'Your profile has been updated.');
+      router.back();
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      Alert.alert('Error', 'Could not save your profile. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading || !user) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <View style={styles.preview}>
+        <Avatar uid={user.uid} name={displayName || '?'} size={64} />
+      </View>
+
+      {/* Name */}
+      <Text style={styles.sectionTitle}>Display name</Text>
+      <View style={styles.card}>
+        <TextInput
+          style={styles.input}
+          placeholder="Your name"
+          placeholderTextColor="#9CA3AF"
+          value={displayName}
+          onChangeText={setDisplayName}
+          maxLength={MAX_DISPLAY_NAME_LENGTH}
+          autoCapitalize="words"
+        />
+      </View>
+
+      {/* Courses */}
+      <Text style={styles.sectionTitle}>Courses</Text>
+      <View style={styles.card}>
+        <View style={styles.courseInputRow}>
+          <TextInput
+            style={[styles.input, styles.courseInput]}
+            placeholder="e.g. CS 124"
+            placeholderTextColor="#9CA3AF"
+            value={newCourse}
+            onChangeText={setNewCourse}
+            onSubmitEditing={addCourse}
+            autoCapitalize="characters"
+            returnKeyType="done"
+          />
+          <TouchableOpacity style={styles.addButton} onPress={addCourse}>
+            <Ionicons name="add" size={22} color="white" />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chipRow}>
+          {courses.map(course => (
+            <TouchableOpacity
+              key={course}
+              style={styles.courseChip}
+              onPress={() => setCourses(prev => prev.filter(c => c !== course))}
+            >
+              <Text style={styles.courseChipText}>{course}</Text>
+              <Ionicons name="close" size={14} color="white" />
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.hint}>Shown next to your name on session rosters.</Text>
+      </View>
+
+      {/* Privacy */}
+      <Text style={styles.sectionTitle}>Privacy</Text>
+      <View style={styles.card}>
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.rowLabel}>Appear as &ldquo;Anonymous student&rdquo;</Text>
+            <Text style={styles.rowDescription}>
+              Hides your name and courses on the sessions you join. Sessions you host still show your name.
+            </Text>
+          </View>
+          <Switch
+            value={anonymousOnRosters}
+            onValueChange={setAnonymousOnRosters}
+            trackColor={{ false: '#D1D5DB', true: '#3B82F6' }}
+          />
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator color="white" />
+        ) : (
+          <Text style={styles.saveButtonText}>Save Profile</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 30,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  preview: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  courseChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#3B82F6',
+  },
+  courseChipText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 10,
+  },
+  courseInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  courseInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    padding: 10,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  saveButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
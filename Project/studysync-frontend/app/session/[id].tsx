@@ -0,0 +1,612 @@
+/* Session detail screen: everything about one session on its own route.
+   Opened from a SessionCard, a reminder or push notification, or a shared
+   studysync://session/<id> link. Listens to the session document so joins,
+   edits and cancellations show up live. Unlisted and invite-only sessions
+   are only readable by their members; everyone else goes through
+   app/invite/[code].tsx. */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
+import { getFirestore, doc, onSnapshot } from 'firebase/firestore';
+
+import { FIREBASE_APP } from '../../firebaseConfig';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  joinSession,
+  leaveSession,
+  joinWaitlist,
+  leaveWaitlist,
+  withdrawJoinRequest,
+  setInterest,
+  setDropIn,
+  rotateInviteCode,
+} from '../../utils/api';
+import {
+  StudySession,
+  sessionFromSnapshot,
+  sessionDeepLink,
+  inviteDeepLink,
+  VISIBILITY_OPTIONS,
+  describeAttendance,
+  DROP_IN_OPENS_MS,
+  formatTime,
+  formatDate,
+  openGoogleMaps,
+} from '../../utils/sessions';
+import { buildGoogleCalUrl, sessionCalendarEvent, exportSessionIcs } from '../../utils/calendar';
+import { describeRecurrence } from '../../utils/recurrence';
+import { generateLocationId, getLocationRating, LocationRating } from '../../utils/locationRatings';
+import { StarRating } from '../../components/StarRating';
+import { DetailRow } from '../../components/DetailRow';
+import { CancelSessionModal } from '../../components/CancelSessionModal';
+import { JoinRequestModal } from '../../components/JoinRequestModal';
+import { JoinRequestsList } from '../../components/JoinRequestsList';
+import { SessionRoster } from '../../components/SessionRoster';
+import { scheduleSessionReminder, cancelSessionReminderBySessionId } from '../../notificationService';
+
+export default function SessionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const [session, setSession] = useState<StudySession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [locationRating, setLocationRating] = useState<LocationRating | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [showRequestModal, setShowRequestModal] = useState(false);
+
+  useEffect(() => {
+    if (!user || !id) return;
+
+    const db = getFirestore(FIREBASE_APP);
+    const unsubscribe = onSnapshot(doc(db, 'sessions', id), (snapshot) => {
+      if (!snapshot.exists()) {
+        setNotFound(true);
+        setSession(null);
+      } else {
+        setNotFound(false);
+        setSession(sessionFromSnapshot(snapshot.id, snapshot.data()));
+      }
+      setLoading(false);
+    }, (e) => {
+      // Rules deny non-members of unlisted and invite-only sessions
+      if (e.code === 'permission-denied') {
+        setIsPrivate(true);
+      } else {
+        console.error('Error loading session:', e);
+      }
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, [user, id]);
+
+  // Rating for the session's spot, keyed the same way FeedbackModal writes it
+  const locationName = session?.locationName;
+  const latitude = session?.locationCoords.latitude;
+  const longitude = session?.locationCoords.longitude;
+  useEffect(() => {
+    if (!locationName || latitude === undefined || longitude === undefined) return;
+    const locationId = generateLocationId(undefined, locationName, { latitude, longitude });
+    getLocationRating(locationId)
+      .then(setLocationRating)
+      .catch(error => console.error('Error loading location rating:', error));
+  }, [locationName, latitude, longitude]);
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (notFound || !session) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: 'Session' }} />
+        <Ionicons name={isPrivate ? 'lock-closed-outline' : 'alert-circle-outline'} size={48} color="#9CA3AF" />
+        <Text style={styles.emptyText}>
+          {isPrivate
+            ? 'This session is private. Ask the host for its invite link.'
+            : 'This session no longer exists.'}
+        </Text>
+      </View>
+    );
+  }
+
+  const isHost = user?.uid === session.creatorId;
+  const isJoined = !!user && session.attendees.includes(user.uid);
+  const waitlistPosition = user ? session.waitlist.indexOf(user.uid) + 1 : 0;
+  const needsApproval = session.signupPolicy === 'required';
+  const hasPendingRequest = !!user && session.pendingRequests.includes(user.uid);
+  const isCancelled = session.status === 'cancelled';
+  const hasEnded = (session.endTime ?? new Date(session.startTime.getTime() + 60 * 60 * 1000)) < new Date();
+  // Sessions created while Places was unavailable have no real coordinates
+  const hasCoords = session.locationCoords.latitude !== 0 || session.locationCoords.longitude !== 0;
+  const isPreferred = session.signupPolicy === 'preferred';
+  const isInterested = !!user && session.interested.includes(user.uid);
+  const isDroppedIn = !!user && session.dropIns.includes(user.uid);
+  // Preferred sessions: RSVPs close at start; drop-in check-in opens shortly before
+  const rsvpClosed = isPreferred && session.startTime.getTime() <= Date.now();
+  const canDropIn = isPreferred && !isJoined && session.startTime.getTime() - DROP_IN_OPENS_MS <= Date.now();
+
+  // Join/leave mirror the list screen: the backend checks capacity, reminders follow
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      Alert.alert('Error', error instanceof Error ? error.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleJoin = () => runAction(async () => {
+    await joinSession(session.id);
+    scheduleSessionReminder(session.startTime, session.id, session)
+      .catch(error => console.error('Error scheduling reminder:', error));
+  }, 'Failed to join session');
+
+  const handleLeave = () => runAction(async () => {
+    await leaveSession(session.id);
+    await cancelSessionReminderBySessionId(session.id);
+  }, 'Failed to leave session');
+
+  const handleWaitlist = () => runAction(async () => {
+    if (waitlistPosition > 0) {
+      await leaveWaitlist(session.id);
+    } else {
+      const { position } = await joinWaitlist(session.id);
+      Alert.alert('Waitlist', `You're #${position} on the waitlist. We'll notify you if a spot opens up.`);
+    }
+  }, 'Failed to update waitlist');
+
+  // Private sessions are shared through their invite link; the plain link only works for members
+  const inviteLink = session.visibility !== 'public' && session.inviteCode
+    ? inviteDeepLink(session.inviteCode)
+    : null;
+
+  const handleWithdrawRequest = () => runAction(async () => {
+    await withdrawJoinRequest(session.id);
+  }, 'Failed to withdraw request');
+
+  const handleToggleInterest = () => runAction(async () => {
+    await setInterest(session.id, !isInterested, session.inviteCode);
+  }, 'Failed to update');
+
+  const handleToggleDropIn = () => runAction(async () => {
+    await setDropIn(session.id, !isDroppedIn, session.inviteCode);
+  }, 'Failed to check in');
+
+  const handleShare = async () => {
+    const link = inviteLink ?? sessionDeepLink(session.id);
+    await Share.share({
+      message: `${session.course}: ${session.topic} — ${formatDate(session.startTime)} at ${formatTime(session.startTime)}\n${link}`,
+      url: link,
+    });
+  };
+
+  const handleResetInvite = () => {
+    Alert.alert(
+      'Reset Invite Link',
+      'People with the current link will no longer be able to open or join this session. Anyone who already joined stays.',
+      [
+        { text: 'Keep Link', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: () => runAction(async () => {
+            await rotateInviteCode(session.id);
+          }, 'Failed to reset the invite link'),
+        },
+      ]
+    );
+  };
+
+  const handleAddToCalendar = async () => {
+    try {
+      await exportSessionIcs(session);
+    } catch (error) {
+      console.error('Error exporting calendar file:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not create the calendar file.');
+    }
+  };
+
+  const timeRange = `${formatTime(session.startTime)} - ${session.endTime ? formatTime(session.endTime) : 'Ongoing'}`;
+  const visibilityLabel = VISIBILITY_OPTIONS.find(option => option.value === session.visibility)?.label ?? 'Public';
+  const attendance = describeAttendance(session);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen
+        options={{
+          title: session.course,
+          headerRight: () => (
+            <TouchableOpacity onPress={handleShare} accessibilityLabel="Share this session">
+              <Ionicons name="share-outline" size={22} color="#3B82F6" />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {isCancelled && (
+        <View style={styles.cancelledBanner}>
+          <Ionicons name="close-circle" size={20} color="#EF4444" />
+          <Text style={styles.cancelledText}>
+            Cancelled{session.cancelReason ? `: ${session.cancelReason}` : ''}
+          </Text>
+        </View>
+      )}
+
+      <Text style={styles.course}>{session.course}</Text>
+      <Text style={styles.topic}>{session.topic}</Text>
+
+      {/* When */}
+      <View style={styles.card}>
+        <DetailRow iconName="calendar-outline" label="Date" value={formatDate(session.startTime)} />
+        <DetailRow iconName="time-outline" label="Time" value={timeRange} />
+        {session.recurrence && (
+          <DetailRow iconName="repeat-outline" label="Repeats" value={describeRecurrence(session.recurrence)} />
+        )}
+        <DetailRow
+          iconName="clipboard-outline"
+          label="Sign-up"
+          value={session.signupPolicy.charAt(0).toUpperCase() + session.signupPolicy.slice(1)}
+        />
+        <DetailRow iconName="eye-outline" label="Visibility" value={visibilityLabel} />
+      </View>
+
+      {/* Invite link for unlisted and invite-only sessions */}
+      {inviteLink && !isCancelled && (
+        <>
+          <Text style={styles.sectionTitle}>Invite Link</Text>
+          <View style={styles.card}>
+            <Text style={styles.inviteCode}>{session.inviteCode}</Text>
+            <Text style={styles.mutedText}>
+              {session.visibility === 'invite'
+                ? 'Only people with this code can join.'
+                : 'This session is not listed. Anyone with the link can join.'}
+            </Text>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleShare} accessibilityRole="button">
+              <Ionicons name="share-social-outline" size={20} color="#2563EB" />
+              <Text style={styles.secondaryButtonText}>Share Invite Link</Text>
+            </TouchableOpacity>
+            {isHost && (
+              <TouchableOpacity
+                style={[styles.secondaryButton, styles.inviteResetButton]}
+                onPress={handleResetInvite}
+                disabled={isWorking}
+                accessibilityRole="button"
+              >
+                <Ionicons name="refresh-outline" size={20} color="#6B7280" />
+                <Text style={[styles.secondaryButtonText, { color: '#6B7280' }]}>Reset Link</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* Who */}
+      <Text style={styles.sectionTitle}>People</Text>
+      <View style={styles.card}>
+        <SessionRoster session={session} currentUserId={user?.uid} />
+        <DetailRow iconName="people-outline" label="Attendance" value={attendance} />
+        {session.waitlist.length > 0 && (
+          <DetailRow
+            iconName="hourglass-outline"
+            label="Waitlist"
+            value={waitlistPosition > 0
+              ? `#${waitlistPosition} of ${session.waitlist.length}`
+              : `${session.waitlist.length} waiting`}
+          />
+        )}
+      </View>
+
+      {/* Host approval queue for "required" sessions */}
+      {isHost && !isCancelled && session.pendingRequests.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Join Requests</Text>
+          <View style={styles.card}>
+            <JoinRequestsList session={session} />
+          </View>
+        </>
+      )}
+
+      {/* Where */}
+      <Text style={styles.sectionTitle}>Location</Text>
+      <View style={styles.card}>
+        <DetailRow iconName="location-sharp" label="Place" value={session.locationName} />
+        {session.locationDetails && (
+          <Text style={styles.locationDetails}>• {session.locationDetails}</Text>
+        )}
+        {locationRating && locationRating.totalRatings > 0 ? (
+          <TouchableOpacity
+            style={styles.ratingRow}
+            onPress={() => router.push({ pathname: '/location/[id]', params: { id: locationRating.locationId } })}
+            accessibilityLabel="Open reviews for this spot"
+          >
+            <StarRating rating={locationRating.averageRating} size={18} />
+            <Text style={styles.ratingText}>
+              {locationRating.averageRating.toFixed(1)} ({locationRating.totalRatings} rating
+              {locationRating.totalRatings > 1 ? 's' : ''})
+            </Text>
+            <Ionicons name="chevron-forward" size={16} color="#9CA3AF" />
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.mutedText}>No ratings for this spot yet</Text>
+        )}
+        {hasCoords && (
+          <TouchableOpacity activeOpacity={0.9} onPress={() => openGoogleMaps(session.locationCoords)}>
+            <MapView
+              provider={PROVIDER_GOOGLE}
+              style={styles.map}
+              pointerEvents="none"
+              initialRegion={{
+                ...session.locationCoords,
+                latitudeDelta: 0.005,
+                longitudeDelta: 0.005,
+              }}
+            >
+              <Marker coordinate={session.locationCoords} title={session.locationName} />
+            </MapView>
+            <Text style={styles.mapHint}>Tap the map for directions</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Actions */}
+      {!isCancelled && !hasEnded && !isHost && (
+        canDropIn && (rsvpClosed || isDroppedIn) ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, isDroppedIn && { backgroundColor: '#10B981' }]}
+            onPress={handleToggleDropIn}
+            disabled={isWorking}
+          >
+            <Text style={styles.primaryButtonText}>
+              {isDroppedIn ? 'Checked In — Leave' : "I'm Here — Drop In"}
+            </Text>
+          </TouchableOpacity>
+        ) : needsApproval && !isJoined ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, hasPendingRequest && { backgroundColor: '#6B7280' }]}
+            onPress={hasPendingRequest ? handleWithdrawRequest : () => setShowRequestModal(true)}
+            disabled={isWorking}
+          >
+            <Text style={styles.primaryButtonText}>
+              {hasPendingRequest ? 'Request Pending — Withdraw' : 'Request to Join'}
+            </Text>
+          </TouchableOpacity>
+        ) : session.isFull && !isJoined ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: '#F59E0B' }]}
+            onPress={handleWaitlist}
+            disabled={isWorking}
+          >
+            <Text style={styles.primaryButtonText}>
+              {waitlistPosition > 0 ? `Leave Waitlist (#${waitlistPosition} in line)` : 'Session Full — Join Waitlist'}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, isJoined && { backgroundColor: '#10B981' }]}
+            onPress={isJoined ? handleLeave : handleJoin}
+            disabled={isWorking}
+          >
+            <Text style={styles.primaryButtonText}>
+              {isPreferred
+                ? (isJoined ? 'Cancel RSVP' : 'RSVP')
+                : (isJoined ? 'Leave Session' : 'Join Session')}
+            </Text>
+          </TouchableOpacity>
+        )
+      )}
+
+      {/* "I might come" (open) and an early drop-in check-in (preferred) take no spot */}
+      {!isCancelled && !hasEnded && !isHost && session.signupPolicy === 'open' && !isJoined && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleToggleInterest} disabled={isWorking}>
+          <Ionicons name={isInterested ? 'star' : 'star-outline'} size={20} color="#2563EB" />
+          <Text style={styles.secondaryButtonText}>{isInterested ? 'Not Coming After All' : 'I Might Come'}</Text>
+        </TouchableOpacity>
+      )}
+      {!isCancelled && !hasEnded && !isHost && canDropIn && !rsvpClosed && !isDroppedIn && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleToggleDropIn} disabled={isWorking}>
+          <Ionicons name="walk-outline" size={20} color="#2563EB" />
+          <Text style={styles.secondaryButtonText}>I&apos;m Here — Drop In</Text>
+        </TouchableOpacity>
+      )}
+
+      {!isCancelled && (
+        <>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => Linking.openURL(buildGoogleCalUrl(sessionCalendarEvent(session)))}
+            accessibilityRole="button"
+          >
+            <Ionicons name="logo-google" size={20} color="#2563EB" />
+            <Text style={styles.secondaryButtonText}>Open in Google Calendar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleAddToCalendar} accessibilityRole="button">
+            <Ionicons name="calendar-outline" size={20} color="#2563EB" />
+            <Text style={styles.secondaryButtonText}>Add to Calendar (.ics)</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {isHost && !isCancelled && !hasEnded && (
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.dangerButton]}
+          onPress={() => setShowCancelModal(true)}
+          accessibilityRole="button"
+        >
+          <Ionicons name="close-circle-outline" size={20} color="#EF4444" />
+          <Text style={[styles.secondaryButtonText, { color: '#EF4444' }]}>Cancel Session</Text>
+        </TouchableOpacity>
+      )}
+
+      <CancelSessionModal
+        session={showCancelModal ? session : null}
+        onClose={() => setShowCancelModal(false)}
+      />
+      <JoinRequestModal
+        session={showRequestModal ? session : null}
+        inviteCode={session.inviteCode}
+        onClose={() => setShowRequestModal(false)}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  cancelledBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF2F2',
+    borderColor: '#FEE2E2',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cancelledText: {
+    flex: 1,
+    color: '#B91C1C',
+    fontWeight: '600',
+  },
+  course: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#3B82F6',
+  },
+  topic: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#1F2937',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    marginBottom: 16,
+  },
+  inviteCode: {
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: 3,
+    color: '#1F2937',
+    textAlign: 'center',
+  },
+  inviteResetButton: {
+    marginBottom: 0,
+  },
+  locationDetails: {
+    fontSize: 14,
+    color: '#4B5563',
+    marginLeft: 30,
+    marginBottom: 6,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginVertical: 6,
+  },
+  ratingText: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginVertical: 6,
+  },
+  map: {
+    height: 180,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  mapHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    backgroundColor: 'white',
+    marginBottom: 10,
+  },
+  secondaryButtonText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  dangerButton: {
+    borderColor: '#EF4444',
+  },
+});
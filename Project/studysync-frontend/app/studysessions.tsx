@@ -8,23 +8,18 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Linking,
-  Platform,
   Modal,
   TextInput,
   Pressable,
   Dimensions,
   Alert,
-  LogBox
+  LogBox,
+  Switch,
+  Share,
 } from 'react-native';
 
-// Suppress VirtualizedList warning for GooglePlacesAutocomplete
-// The dropdown is positioned absolutely to avoid actual nesting issues,
-// but React Native still detects it in the component tree and warns.
-// This warning doesn't affect functionality and is expected with this library.
-LogBox.ignoreLogs([
-  'VirtualizedLists should never be nested',
-]);
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { GooglePlacesAutocomplete } from 'react-native-google-places-autocomplete';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 
@@ -36,70 +31,86 @@ import {
   collection,
   onSnapshot,
   query,
-  DocumentData,
-  setLogLevel,
   Timestamp,
-  addDoc,
+  doc,
+  setDoc,
   serverTimestamp,
-  doc,           // Gets a reference to a specific document
-  runTransaction // Safely updates data with consistency checks
+  where,
 } from 'firebase/firestore';
 
 // CONTEXT
 import { useAuth } from './contexts/AuthContext';
+import { useSessionFilters } from './contexts/SessionFiltersContext';
+import { usePublicSessions } from '../hooks/use-public-sessions';
+import { filterSessions, countActiveFilters } from '../utils/sessionFilters';
+import {
+  joinSession,
+  leaveSession,
+  joinWaitlist,
+  leaveWaitlist,
+  withdrawJoinRequest,
+  setInterest,
+  setDropIn,
+  updateSession,
+  createSession,
+  SessionUpdate,
+  NewSession,
+} from '../utils/api';
+import {
+  RecurrenceRule,
+  SeriesScope,
+  Weekday,
+  WEEKDAYS,
+  weekdayOf,
+  describeRecurrence,
+  groupBySeries,
+} from '../utils/recurrence';
+import { CancelSessionModal } from '../components/CancelSessionModal';
+import { FilterModal } from '../components/FilterModal';
+import { hasMapCoords } from '../utils/mapClusters';
+import {
+  generateLocationId,
+  canUserRateLocation,
+  addOrUpdateRating,
+  LOCATION_ATTRIBUTES,
+  AMENITY_TAGS,
+  AttributeScores,
+  AmenityTag,
+  LocationRating,
+  getTopRatedLocations,
+  RATED_SPOTS_LIMIT,
+  ratingColor,
+} from '../utils/locationRatings';
+import { DEFAULT_SPOT_FILTERS, SpotFilters, matchesSpotFilters } from '../utils/spotFilters';
+import { StarRating } from '../components/StarRating';
+import { DetailRow } from '../components/DetailRow';
+import { SpotFilterChips } from '../components/SpotFilterChips';
+import { JoinRequestModal } from '../components/JoinRequestModal';
+import { scheduleSessionReminder, cancelSessionReminderBySessionId } from '../notificationService';
+import {
+  StudySession,
+  LocationCoords,
+  formatTime,
+  formatDate,
+  openGoogleMaps,
+  SessionVisibility,
+  VISIBILITY_OPTIONS,
+  SIGNUP_POLICY_OPTIONS,
+  inviteDeepLink,
+  describeAttendance,
+  DROP_IN_OPENS_MS,
+} from '../utils/sessions';
+import { buildGoogleCalUrl, sessionCalendarEvent, exportSessionIcs } from '../utils/calendar';
 
-/* ===== AI-COPILOT SNIPPET (BEGIN) =====
-Source: GitHub Copilot via chat (Elias Ghanayem) on 2025-11-05
-Purpose: Build a Google Calendar TEMPLATE URL that opens a prefilled event for user review before saving.
-Why AI was used: To compose a standards-compliant URL quickly with clear handling of edge cases and include thorough comments so you can explain it.
-Key implementation details (teach-back):
-- Google Calendar accepts dates as UTC in compact form: YYYYMMDDTHHMMSSZ.
-- We include host and optional location details in "details".
-- If no end is provided, we set end == start (zero-duration) and add an explicit note in details ("No end time specified.").
-===== AI-COPILOT SNIPPET (END) ===== */
-
-/** Convert a Date to Google Calendar's compact UTC format: 20251020T182000Z */
-const toGCalDate = (d: Date) =>
-  d
-    .toISOString()              // e.g., 2025-10-20T18:20:00.000Z
-    .replace(/[-:]/g, '')       // -> 20251020T182000.000Z
-    .replace(/\.\d{3}Z$/, 'Z'); // -> 20251020T182000Z
-
-/** Build a Google Calendar “TEMPLATE” URL with title/details/location and start/end. */
-const buildGoogleCalUrl = (s: {
-  title: string;
-  description?: string;
-  location?: string;
-  locationDetails?: string;
-  start: Date;
-  end?: Date | null;
-}) => {
-  const hasEnd = !!s.end;
-  const startUtc = toGCalDate(s.start);
-  const endUtc = toGCalDate(s.end ?? s.start); // zero-duration if no end
-
-  const lines: string[] = [];
-  if (s.description) lines.push(s.description);
-  if (s.locationDetails) lines.push(`Location details: ${s.locationDetails}`);
-  if (!hasEnd) lines.push('Note: This event has no specified end time.');
-
-  const params = new URLSearchParams({
-    action: 'TEMPLATE',
-    text: s.title,
-    details: lines.join('\n'),    // multi-line description (URL-encoded)
-    location: s.location ?? '',
-    dates: `${startUtc}/${endUtc}` // required start/end pair
-  });
-
-  return `https://calendar.google.com/calendar/render?${params.toString()}`;
-};
+// Suppress VirtualizedList warning for GooglePlacesAutocomplete
+// The dropdown is positioned absolutely to avoid actual nesting issues,
+// but React Native still detects it in the component tree and warns.
+// This warning doesn't affect functionality and is expected with this library.
+LogBox.ignoreLogs([
+  'VirtualizedLists should never be nested',
+]);
 
 // INTERFACES
-interface LocationCoords {
-  latitude: number;
-  longitude: number;
-}
-
 // Firestore write shape for new sessions
 interface StudySessionFirestore {
   creatorId: string;
@@ -114,6 +125,7 @@ interface StudySessionFirestore {
   signupPolicy: 'required' | 'preferred' | 'open';
   capacity?: number;
   attendees: string[];
+  waitlist?: string[];
   isFull: boolean;
   createdAt?: Timestamp;
 }
@@ -125,24 +137,6 @@ interface SelectedLocation {
   details?: string;
 }
 
-interface StudySession {
-  id: string;
-  creatorId: string;
-  creatorName: string;
-  course: string;
-  topic: string;
-  locationName: string;
-  locationDetails?: string;
-  locationCoords: LocationCoords;
-  startTime: Date;
-  endTime?: Date | null;
-  signupPolicy: 'required' | 'preferred' | 'open';
-  capacity?: number;
-  attendees: string[];
-  isFull: boolean;
-  createdAt: Date;
-}
-
 // Feedback data structure stored in Firestore
 interface SessionFeedback {
   id: string;
@@ -154,43 +148,7 @@ interface SessionFeedback {
   createdAt: Date;         // When submitted
 }
 
-// DATA & MAP UTILITIES
-const formatTime = (date: Date | null | undefined): string => {
-  if (!date) return 'TBD';
-  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
-};
-
-const formatDate = (date: Date | null | undefined): string => {
-  if (!date) return 'Date TBD';
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-};
-
-const openGoogleMaps = (coords: LocationCoords) => {
-  const { latitude, longitude } = coords;
-  const url = Platform.select({
-    ios: `comgooglemaps://?q=${latitude},${longitude}&zoom=15`,
-    android: `geo:${latitude},${longitude}?q=${latitude},${longitude}`,
-    default: `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`,
-  });
-
-  Linking.canOpenURL(url).then(supported => {
-    if (supported) {
-      Linking.openURL(url);
-    } else {
-      Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`);
-    }
-  });
-};
-
 // REUSABLE COMPONENTS
-const DetailRow: React.FC<{ iconName: string, label: string, value: string | number }> = ({ iconName, label, value }) => (
-  <View style={styles.detailRow}>
-    <Ionicons name={iconName as any} size={20} color="#3B82F6" style={styles.detailIcon} />
-    <Text style={styles.detailLabel}>{label}</Text>
-    <Text style={styles.detailValue} numberOfLines={1}>{value}</Text>
-  </View>
-);
-
 const MapExcerpt: React.FC<{ locationName: string, coords: LocationCoords }> = ({ locationName, coords }) => (
   <TouchableOpacity 
     style={styles.mapContainer}
@@ -217,9 +175,21 @@ const SessionCard: React.FC<{
   currentUserId: string | undefined; 
   onJoin: (sessionId: string) => void; 
   onLeave: (sessionId: string) => void;
+  onJoinWaitlist?: (sessionId: string) => void;
+  onLeaveWaitlist?: (sessionId: string) => void;
+  // "required" sessions: ask the host instead of joining
+  onRequestJoin?: (session: StudySession) => void;
+  onWithdrawRequest?: (sessionId: string) => void;
+  // "open" sessions: "I might come"; "preferred" sessions: drop-in check-in
+  onSetInterest?: (sessionId: string, interested: boolean) => void;
+  onSetDropIn?: (sessionId: string, checkedIn: boolean) => void;
+  onEdit?: (session: StudySession) => void;
+  onCancel?: (session: StudySession) => void;
+  onOpen?: (session: StudySession) => void;
+  // Recurring sessions: how many other dates are listed under this card, and a toggle to show them
+  series?: { otherCount: number; expanded: boolean; onToggle: () => void };
   badges?: Array<{ label: string; color: string }>;
-}> = ({ session, currentUserId, onJoin, onLeave, badges }) => {
-  const numAttendees = session.attendees.length;
+}> = ({ session, currentUserId, onJoin, onLeave, onJoinWaitlist, onLeaveWaitlist, onRequestJoin, onWithdrawRequest, onSetInterest, onSetDropIn, onEdit, onCancel, onOpen, series, badges }) => {
   const timeStart = formatTime(session.startTime);
   const timeEnd = formatTime(session.endTime);
   const date = formatDate(session.startTime);
@@ -228,10 +198,27 @@ const SessionCard: React.FC<{
   // Check if the current user has joined this session
   const isUserJoined = currentUserId ? session.attendees.includes(currentUserId) : false;
 
+  // Waitlist position is 1-based; 0 means the user is not queued
+  const waitlistPosition = currentUserId ? session.waitlist.indexOf(currentUserId) + 1 : 0;
+  const canUseWaitlist = !!onJoinWaitlist && !!onLeaveWaitlist;
+  const isHost = !!currentUserId && session.creatorId === currentUserId;
+  const needsApproval = session.signupPolicy === 'required' && !!onRequestJoin && !!onWithdrawRequest;
+  const hasPendingRequest = !!currentUserId && session.pendingRequests.includes(currentUserId);
+  const isPreferred = session.signupPolicy === 'preferred';
+
+  // "I might come" on open sessions
+  const canMarkInterest = session.signupPolicy === 'open' && !!onSetInterest && !isUserJoined && !isHost;
+  const isInterested = !!currentUserId && session.interested.includes(currentUserId);
+
+  // Preferred sessions: RSVPs close at start; drop-in check-in opens shortly before
+  const now = Date.now();
+  const rsvpClosed = isPreferred && session.startTime.getTime() <= now;
+  const isDroppedIn = !!currentUserId && session.dropIns.includes(currentUserId);
+  const canDropIn = isPreferred && !!onSetDropIn && !isUserJoined && !isHost
+    && session.startTime.getTime() - DROP_IN_OPENS_MS <= now;
+
   const policyText = session.signupPolicy.charAt(0).toUpperCase() + session.signupPolicy.slice(1) + ' Sign-up';
-  const attendeeCountText = session.capacity
-    ? `${numAttendees} / ${session.capacity} Attending`
-    : `${numAttendees} Attending`;
+  const attendeeCountText = describeAttendance(session);
 
   // Badge color logic based on signup policy and capacity
   let badgeColor = '#3B82F6';
@@ -247,15 +234,17 @@ const SessionCard: React.FC<{
   Why AI was used: To wire the helper into the UI with clear accessibility labels and well-documented behavior.
   ===== AI-COPILOT SNIPPET (END) ===== */
   const handleOpenInGoogleCalendar = () => {
-    const url = buildGoogleCalUrl({
-      title: `${session.course} — ${session.topic}`,
-      description: `Study session hosted by ${session.creatorName}`,
-      location: session.locationName,
-      locationDetails: session.locationDetails ?? undefined,
-      start: session.startTime,
-      end: session.endTime ?? null,
-    });
-    Linking.openURL(url);
+    Linking.openURL(buildGoogleCalUrl(sessionCalendarEvent(session)));
+  };
+
+  // Works with any calendar app: share a .ics file built from the same event data
+  const handleAddToCalendar = async () => {
+    try {
+      await exportSessionIcs(session);
+    } catch (error) {
+      console.error('Error exporting calendar file:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not create the calendar file.');
+    }
   };
 
   return (
@@ -280,15 +269,36 @@ const SessionCard: React.FC<{
 
       <Text style={styles.cardTopic}>{session.topic}</Text>
 
+      {onOpen && (
+        <TouchableOpacity
+          style={styles.detailsLink}
+          onPress={() => onOpen(session)}
+          accessibilityRole="link"
+          accessibilityLabel="View full session details"
+        >
+          <Text style={styles.detailsLinkText}>View details</Text>
+          <Ionicons name="chevron-forward" size={16} color="#3B82F6" />
+        </TouchableOpacity>
+      )}
+
       <View style={styles.detailsBlock}>
-        <DetailRow iconName="person-circle-outline" label="Host" value={session.creatorName} />
-        <DetailRow iconName="time-outline" label="Time" value={timeRange} />
-        <DetailRow iconName="calendar-outline" label="Date" value={date} />
-        <DetailRow iconName="people-outline" label="Attendance" value={attendeeCountText} />
+        <DetailRow iconName="person-circle-outline" label="Host" value={session.creatorName} numberOfLines={1} />
+        <DetailRow iconName="time-outline" label="Time" value={timeRange} numberOfLines={1} />
+        <DetailRow iconName="calendar-outline" label="Date" value={date} numberOfLines={1} />
+        <DetailRow iconName="people-outline" label="Attendance" value={attendeeCountText} numberOfLines={1} />
+        {session.waitlist.length > 0 && (
+          <DetailRow iconName="hourglass-outline" label="Waitlist" value={`${session.waitlist.length} waiting`} numberOfLines={1} />
+        )}
+        {isHost && session.pendingRequests.length > 0 && (
+          <DetailRow iconName="mail-unread-outline" label="Requests" value={`${session.pendingRequests.length} pending`} numberOfLines={1} />
+        )}
+        {session.recurrence && (
+          <DetailRow iconName="repeat-outline" label="Repeats" value={describeRecurrence(session.recurrence)} numberOfLines={1} />
+        )}
       </View>
 
       <View style={styles.locationBlock}>
-        <DetailRow iconName="location-sharp" label="Location" value={session.locationName} />
+        <DetailRow iconName="location-sharp" label="Location" value={session.locationName} numberOfLines={1} />
         {session.locationDetails && (
           <Text style={styles.locationDetailsText}>• {session.locationDetails}</Text>
         )}
@@ -296,20 +306,133 @@ const SessionCard: React.FC<{
 
       <MapExcerpt locationName={session.locationName} coords={session.locationCoords} />
 
+      {series && series.otherCount > 0 && (
+        <TouchableOpacity style={styles.seriesToggle} onPress={series.onToggle}>
+          <Ionicons name={series.expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#3B82F6" />
+          <Text style={styles.seriesToggleText}>
+            {series.expanded
+              ? 'Hide other dates'
+              : `${series.otherCount} more date${series.otherCount > 1 ? 's' : ''} in this series`}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Host-only: reopen the create form prefilled with this session */}
+      {isHost && onEdit && (
+        <TouchableOpacity
+          style={{
+            marginBottom: 10,
+            paddingVertical: 10,
+            borderWidth: 1,
+            borderColor: '#3B82F6',
+            borderRadius: 6,
+            alignItems: 'center',
+            flexDirection: 'row',
+            justifyContent: 'center',
+            gap: 8,
+          }}
+          onPress={() => onEdit(session)}
+          accessibilityRole="button"
+          accessibilityLabel="Edit this session"
+        >
+          <Ionicons name="create-outline" size={20} color="#3B82F6" />
+          <Text style={{ color: '#3B82F6', fontWeight: '600' }}>Edit Session</Text>
+        </TouchableOpacity>
+      )}
+      {isHost && onCancel && (
+        <TouchableOpacity
+          style={{
+            marginBottom: 10,
+            paddingVertical: 10,
+            borderWidth: 1,
+            borderColor: '#EF4444',
+            borderRadius: 6,
+            alignItems: 'center',
+            flexDirection: 'row',
+            justifyContent: 'center',
+            gap: 8,
+          }}
+          onPress={() => onCancel(session)}
+          accessibilityRole="button"
+          accessibilityLabel="Cancel this session and notify attendees"
+        >
+          <Ionicons name="close-circle-outline" size={20} color="#EF4444" />
+          <Text style={{ color: '#EF4444', fontWeight: '600' }}>Cancel Session</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Join/Leave Button - from Joining-Sessions/Profile-Page branch */}
-      <TouchableOpacity
-        style={[
-          styles.joinButton, 
-          isUserJoined && { backgroundColor: '#10B981' },  // Green when joined
-          (session.isFull && !isUserJoined) && { backgroundColor: '#EF4444' }  // Red when full
-        ]}
-        onPress={() => isUserJoined ? onLeave(session.id) : onJoin(session.id)}
-        disabled={session.isFull && !isUserJoined}
-      >
-        <Text style={styles.joinButtonText}>
-          {isUserJoined ? 'Leave Session' : (session.isFull ? 'Session Full' : 'Join Session')}
-        </Text>
-      </TouchableOpacity>
+      {canDropIn && (rsvpClosed || isDroppedIn) ? (
+        // Preferred session under way: check in without an RSVP
+        <TouchableOpacity
+          style={[styles.joinButton, isDroppedIn && { backgroundColor: '#10B981' }]}
+          onPress={() => onSetDropIn(session.id, !isDroppedIn)}
+        >
+          <Text style={styles.joinButtonText}>
+            {isDroppedIn ? 'Checked In — Leave' : "I'm Here — Drop In"}
+          </Text>
+        </TouchableOpacity>
+      ) : needsApproval && !isUserJoined && !isHost ? (
+        // Host approval: send a request, or withdraw the pending one
+        <TouchableOpacity
+          style={[styles.joinButton, hasPendingRequest && { backgroundColor: '#6B7280' }]}
+          onPress={() => hasPendingRequest ? onWithdrawRequest(session.id) : onRequestJoin(session)}
+        >
+          <Text style={styles.joinButtonText}>
+            {hasPendingRequest ? 'Request Pending — Withdraw' : 'Request to Join'}
+          </Text>
+        </TouchableOpacity>
+      ) : session.isFull && !isUserJoined && canUseWaitlist ? (
+        // Full session: queue up instead (amber), or show the user's place in line
+        <TouchableOpacity
+          style={[styles.joinButton, { backgroundColor: '#F59E0B' }]}
+          onPress={() => waitlistPosition > 0 ? onLeaveWaitlist(session.id) : onJoinWaitlist(session.id)}
+        >
+          <Text style={styles.joinButtonText}>
+            {waitlistPosition > 0 ? `Leave Waitlist (#${waitlistPosition} in line)` : 'Session Full — Join Waitlist'}
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={[
+            styles.joinButton, 
+            isUserJoined && { backgroundColor: '#10B981' },  // Green when joined
+            (session.isFull && !isUserJoined) && { backgroundColor: '#EF4444' }  // Red when full
+          ]}
+          onPress={() => isUserJoined ? onLeave(session.id) : onJoin(session.id)}
+          disabled={session.isFull && !isUserJoined}
+        >
+          <Text style={styles.joinButtonText}>
+            {isPreferred
+              ? (isUserJoined ? 'Cancel RSVP' : (session.isFull ? 'Session Full' : 'RSVP'))
+              : (isUserJoined ? 'Leave Session' : (session.isFull ? 'Session Full' : 'Join Session'))}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Secondary attendance: "I might come" (open) or an early drop-in check-in (preferred) */}
+      {canMarkInterest && (
+        <TouchableOpacity
+          style={[styles.secondaryAttendanceButton, isInterested && styles.secondaryAttendanceButtonActive]}
+          onPress={() => onSetInterest(session.id, !isInterested)}
+          accessibilityRole="button"
+          accessibilityLabel={isInterested ? 'Remove your maybe' : 'Mark that you might come without taking a spot'}
+        >
+          <Ionicons name={isInterested ? 'star' : 'star-outline'} size={18} color="#3B82F6" />
+          <Text style={styles.secondaryAttendanceText}>{isInterested ? 'Not Coming After All' : 'I Might Come'}</Text>
+        </TouchableOpacity>
+      )}
+      {canDropIn && !rsvpClosed && !isDroppedIn && (
+        <TouchableOpacity
+          style={styles.secondaryAttendanceButton}
+          onPress={() => onSetDropIn(session.id, true)}
+          accessibilityRole="button"
+          accessibilityLabel="Check in as a drop-in without an RSVP"
+        >
+          <Ionicons name="walk-outline" size={18} color="#3B82F6" />
+          <Text style={styles.secondaryAttendanceText}>I&apos;m Here — Drop In</Text>
+        </TouchableOpacity>
+      )}
 
       {/* Google Calendar Button - from feat/calendar-gcal-button branch */}
       <TouchableOpacity
@@ -334,6 +457,30 @@ const SessionCard: React.FC<{
           Open in Google Calendar
         </Text>
       </TouchableOpacity>
+
+      {/* .ics export for Apple Calendar, Outlook, etc. */}
+      <TouchableOpacity
+        style={{
+          marginTop: 10,
+          paddingVertical: 10,
+          borderWidth: 1,
+          borderColor: '#D1D5DB',
+          borderRadius: 6,
+          alignItems: 'center',
+          flexDirection: 'row',
+          justifyContent: 'center',
+          gap: 8,
+          backgroundColor: '#F9FAFB',
+        }}
+        onPress={handleAddToCalendar}
+        accessibilityRole="button"
+        accessibilityLabel="Export this session as a calendar file for any calendar app"
+      >
+        <Ionicons name="calendar-outline" size={20} color="#2563EB" />
+        <Text style={{ color: '#2563EB', fontWeight: '600' }}>
+          Add to Calendar (.ics)
+        </Text>
+      </TouchableOpacity>
     </View>
   );
 };
@@ -356,8 +503,14 @@ const EmptyState = () => (
 // Reduce modal height to allow keyboard to fit better
 const MODAL_HEIGHT = Dimensions.get('window').height * 0.85;
 
-const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> = ({ visible, onClose }) => {
+// Pass `session` to edit an existing session; the form is prefilled and saves via PATCH
+const CreateSessionModal: React.FC<{
+  visible: boolean;
+  onClose: () => void;
+  session?: StudySession | null;
+}> = ({ visible, onClose, session }) => {
   const { user } = useAuth();
+  const isEditing = !!session;
   const [course, setCourse] = useState('');
   const [topic, setTopic] = useState('');
   const [location, setLocation] = useState<SelectedLocation | null>(null);
@@ -368,10 +521,152 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
   const [showEndTimePicker, setShowEndTimePicker] = useState(false);
   const [capacity, setCapacity] = useState('');
   const [signupPolicy, setSignupPolicy] = useState<'required' | 'preferred' | 'open'>('open');
+  const [visibility, setVisibility] = useState<SessionVisibility>('public');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Weekly repeat (create only): the server expands it into one session per occurrence
+  const [repeats, setRepeats] = useState(false);
+  const [repeatDays, setRepeatDays] = useState<Weekday[]>([]);
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [repeatEnd, setRepeatEnd] = useState<'count' | 'until'>('count');
+  const [repeatCount, setRepeatCount] = useState('10');
+  const [repeatUntil, setRepeatUntil] = useState<Date | null>(null);
+  const [showRepeatUntilPicker, setShowRepeatUntilPicker] = useState(false);
+  // Rated study spots offered as locations, filtered by their detail scores and amenities
+  const [ratedSpots, setRatedSpots] = useState<LocationRating[]>([]);
+  const [showSpotPicker, setShowSpotPicker] = useState(false);
+  const [spotFilters, setSpotFilters] = useState<SpotFilters>(DEFAULT_SPOT_FILTERS);
+
+  useEffect(() => {
+    if (!visible) return;
+    getTopRatedLocations(RATED_SPOTS_LIMIT)
+      .then(spots => setRatedSpots(spots.filter(spot => spot.totalRatings > 0 && spot.locationCoords)))
+      .catch(error => console.error('Error loading rated spots:', error));
+  }, [visible]);
+
+  const matchingSpots = ratedSpots.filter(spot => matchesSpotFilters(spot, spotFilters)).slice(0, 5);
 
   // Ref for GooglePlacesAutocomplete to ensure proper initialization
   const placesRef = useRef<any>(null);
+  // True while the form holds an edited session's values (cleared before the next create)
+  const isPrefilledRef = useRef(false);
+
+  const resetForm = () => {
+    setCourse('');
+    setTopic('');
+    setLocation(null);
+    setLocationDetails('');
+    setStartTime(new Date());
+    setEndTime(null);
+    setCapacity('');
+    setSignupPolicy('open');
+    setVisibility('public');
+    setRepeats(false);
+    setRepeatDays([]);
+    setRepeatInterval(1);
+    setRepeatEnd('count');
+    setRepeatCount('10');
+    setRepeatUntil(null);
+  };
+
+  const toggleRepeats = (value: boolean) => {
+    setRepeats(value);
+    // Start with the first session's weekday selected
+    if (value && repeatDays.length === 0) setRepeatDays([weekdayOf(startTime)]);
+  };
+
+  const toggleRepeatDay = (day: Weekday) => {
+    setRepeatDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  // Returns the rule, or null after alerting about what is wrong
+  const buildRecurrenceRule = (): RecurrenceRule | null => {
+    if (repeatDays.length === 0) {
+      Alert.alert('Invalid Repeat', 'Choose at least one day of the week.');
+      return null;
+    }
+    const rule: RecurrenceRule = { freq: 'weekly', interval: repeatInterval, byDay: repeatDays };
+    if (repeatEnd === 'count') {
+      const count = parseInt(repeatCount.trim(), 10);
+      if (isNaN(count) || count < 2 || count > 52) {
+        Alert.alert('Invalid Repeat', 'Number of sessions must be between 2 and 52.');
+        return null;
+      }
+      rule.count = count;
+    } else {
+      if (!repeatUntil || repeatUntil <= startTime) {
+        Alert.alert('Invalid Repeat', 'The repeat end date must be after the first session.');
+        return null;
+      }
+      // Include sessions on the end date itself
+      const endOfDay = new Date(repeatUntil);
+      endOfDay.setHours(23, 59, 59, 999);
+      rule.until = endOfDay.toISOString();
+    }
+    return rule;
+  };
+
+  // Prefill from the session being edited each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    if (session) {
+      setCourse(session.course);
+      setTopic(session.topic);
+      setLocation({ name: session.locationName, coords: session.locationCoords });
+      setLocationDetails(session.locationDetails ?? '');
+      setStartTime(session.startTime);
+      setEndTime(session.endTime ?? null);
+      setCapacity(session.capacity ? String(session.capacity) : '');
+      setSignupPolicy(session.signupPolicy);
+      setVisibility(session.visibility);
+      isPrefilledRef.current = true;
+    } else if (isPrefilledRef.current) {
+      resetForm();
+      isPrefilledRef.current = false;
+    }
+    setShowDateTimePicker(false);
+    setShowEndTimePicker(false);
+  }, [visible, session]);
+
+  // Only send the fields the host actually changed
+  const buildSessionUpdate = (original: StudySession, newCapacity: number | null): SessionUpdate => {
+    const changes: SessionUpdate = {};
+    const newDetails = locationDetails.trim();
+
+    if (course.trim() !== original.course) changes.course = course.trim();
+    if (topic.trim() !== original.topic) changes.topic = topic.trim();
+    if (location!.name !== original.locationName) {
+      changes.locationName = location!.name;
+      changes.locationCoords = location!.coords ?? { latitude: 0, longitude: 0 };
+    }
+    if (newDetails !== (original.locationDetails ?? '')) changes.locationDetails = newDetails || null;
+    if (startTime.getTime() !== original.startTime.getTime()) changes.startTime = startTime.toISOString();
+    if ((endTime?.getTime() ?? null) !== (original.endTime?.getTime() ?? null)) {
+      changes.endTime = endTime ? endTime.toISOString() : null;
+    }
+    if (newCapacity !== (original.capacity ?? null)) changes.capacity = newCapacity;
+    if (signupPolicy !== original.signupPolicy) changes.signupPolicy = signupPolicy;
+    if (visibility !== original.visibility) changes.visibility = visibility;
+    return changes;
+  };
+
+  const handleSaveChanges = async (original: StudySession, changes: SessionUpdate, scope: SeriesScope) => {
+    setIsSubmitting(true);
+    try {
+      const { updatedCount } = await updateSession(original.id, changes, scope);
+      Alert.alert(
+        'Saved',
+        updatedCount > 1
+          ? `Updated ${updatedCount} sessions. Attendees have been notified of the changes.`
+          : 'Attendees have been notified of the changes.'
+      );
+      onClose();
+    } catch (error) {
+      console.error('Error updating session:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not save your changes. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
   const onDateTimeChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
     if (event.type === 'set' && selectedDate) {
@@ -393,7 +688,7 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
 
   const handleSubmit = async () => {
     if (!user) {
-      Alert.alert('Error', 'You must be logged in to create a session.');
+      Alert.alert('Error', `You must be logged in to ${isEditing ? 'edit' : 'create'} a session.`);
       return;
     }
 
@@ -430,24 +725,50 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
       return;
     }
 
+    if (session) {
+      // People who already joined keep their spot, so capacity cannot drop below them
+      const newCapacity = trimmedCapacity ? parseInt(trimmedCapacity, 10) : null;
+      if (newCapacity !== null && newCapacity < session.attendees.length) {
+        Alert.alert(
+          'Invalid Capacity',
+          `${session.attendees.length} people have already joined. Capacity cannot be lower than that.`
+        );
+        return;
+      }
+      const changes = buildSessionUpdate(session, newCapacity);
+      if (Object.keys(changes).length === 0) {
+        onClose();
+        return;
+      }
+      if (!session.seriesId) {
+        await handleSaveChanges(session, changes, 'this');
+        return;
+      }
+      // Recurring session: ask which occurrences the edit applies to
+      Alert.alert('Edit Recurring Session', 'Apply these changes to:', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'This session', onPress: () => handleSaveChanges(session, changes, 'this') },
+        { text: 'All future sessions', onPress: () => handleSaveChanges(session, changes, 'future') },
+      ]);
+      return;
+    }
+
+    const recurrence = repeats ? buildRecurrenceRule() : undefined;
+    if (recurrence === null) return;
+
     setIsSubmitting(true);
     try {
-      const db = getFirestore(FIREBASE_APP);
-      const sessionsCollectionRef = collection(db, 'sessions');
-
       // Build session object conditionally to avoid undefined values
-      const newSession: any = {
-        creatorId: user.uid,
+      const newSession: NewSession = {
         creatorName: user.displayName || user.email || 'Anonymous',
         course: course.trim(),
         topic: topic.trim(),
         locationName: location!.name,
         locationCoords: location!.coords ?? { latitude: 0, longitude: 0 }, // fallback coords if Places failed
-        startTime: Timestamp.fromDate(startTime),
-        endTime: endTime ? Timestamp.fromDate(endTime) : null,
+        startTime: startTime.toISOString(),
+        endTime: endTime ? endTime.toISOString() : null,
         signupPolicy,
-        attendees: [user.uid],
-        isFull: false,
+        visibility,
       };
 
       // Only include optional fields if they have values (avoid undefined)
@@ -457,24 +778,40 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
       if (trimmedCapacity) {
         newSession.capacity = parseInt(trimmedCapacity, 10);
       }
+      if (recurrence) {
+        newSession.recurrence = recurrence;
+      }
 
-      await addDoc(sessionsCollectionRef, {
-        ...newSession,
-        createdAt: serverTimestamp(),
-      });
+      // The backend sets creatorId and attendees from the signed-in user
+      const created = await createSession(newSession);
       console.log('Created session payload:', newSession);
 
-      Alert.alert('Success!', 'Your study session has been created.');
+      // The host attends their own session, so remind them like any attendee
+      for (const createdSession of created.sessions ?? [created.session]) {
+        scheduleSessionReminder(createdSession.startTime, createdSession.id, createdSession)
+          .catch(error => console.error('Error scheduling reminder:', error));
+      }
+
+      const createdMessage = created.sessions && created.sessions.length > 1
+        ? `Created ${created.sessions.length} sessions in this series.`
+        : 'Your study session has been created.';
+      const { inviteCode } = created.session;
+      if (inviteCode) {
+        // Private sessions are not listed, so the link is how people find them
+        Alert.alert(
+          'Success!',
+          `${createdMessage} It won't appear in the session list; share the invite link so people can join. You can find it again from the session's details.`,
+          [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Share Link', onPress: () => Share.share({ message: inviteDeepLink(inviteCode) }) },
+          ]
+        );
+      } else {
+        Alert.alert('Success!', createdMessage);
+      }
       setIsSubmitting(false);
       onClose();
-      // reset form
-      setCourse('');
-      setTopic('');
-      setLocation(null);
-      setLocationDetails('');
-      setStartTime(new Date());
-      setEndTime(null);
-      setCapacity('');
+      resetForm();
     } catch (error) {
       console.error('Error creating session:', error);
       Alert.alert('Error', 'Could not create the session. Please try again.');
@@ -488,7 +825,7 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
         <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
         <View style={[styles.modalContent, { height: MODAL_HEIGHT }]}>
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>New Study Session</Text>
+            <Text style={styles.modalTitle}>{isEditing ? 'Edit Study Session' : 'New Study Session'}</Text>
             <TouchableOpacity onPress={onClose} style={styles.closeButton}>
               <Ionicons name="close-circle" size={30} color="#6B7280" />
             </TouchableOpacity>
@@ -528,7 +865,7 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
               5. Selected location appears in a badge below
               6. User can click "Change" to search again
             */}
-            {!location ? (
+            {!location && (
               <View style={{ zIndex: 1000, marginBottom: 20 }}>
                 <GooglePlacesAutocomplete
                   ref={placesRef}
@@ -620,7 +957,44 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
                   listUnderlayColor="transparent"
                 />
               </View>
-            ) : (
+            )}
+
+            {/* Or pick from rated study spots, filtered by what reviewers said */}
+            {!location && ratedSpots.length > 0 && (
+              <View style={styles.spotPicker}>
+                <TouchableOpacity
+                  style={styles.spotPickerToggle}
+                  onPress={() => setShowSpotPicker(open => !open)}
+                >
+                  <Ionicons name="star" size={16} color="#F59E0B" />
+                  <Text style={styles.spotPickerToggleText}>Pick a rated study spot</Text>
+                  <Ionicons name={showSpotPicker ? 'chevron-up' : 'chevron-down'} size={16} color="#6B7280" />
+                </TouchableOpacity>
+                {showSpotPicker && (
+                  <>
+                    <SpotFilterChips filters={spotFilters} onChange={setSpotFilters} />
+                    {matchingSpots.length === 0 ? (
+                      <Text style={styles.spotEmptyText}>No rated spots match these filters</Text>
+                    ) : (
+                      matchingSpots.map(spot => (
+                        <TouchableOpacity
+                          key={spot.locationId}
+                          style={styles.spotRow}
+                          onPress={() => setLocation({ name: spot.locationName, coords: spot.locationCoords })}
+                        >
+                          <Text style={styles.spotName} numberOfLines={1}>{spot.locationName}</Text>
+                          <Text style={[styles.spotRating, { color: ratingColor(spot.averageRating) }]}>
+                            ★ {spot.averageRating.toFixed(1)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))
+                    )}
+                  </>
+                )}
+              </View>
+            )}
+
+            {location && (
               // Show selected location with option to change
               <View style={styles.selectedLocationContainer}>
                 <View style={styles.selectedLocationContent}>
@@ -703,179 +1077,137 @@ const CreateSessionModal: React.FC<{ visible: boolean; onClose: () => void }> =
             <Text style={styles.label}>Capacity (Optional)</Text>
             <TextInput style={styles.input} placeholder="e.g., 10" placeholderTextColor="#9CA3AF" value={capacity} onChangeText={setCapacity} keyboardType="number-pad" />
 
-            <TouchableOpacity style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]} onPress={handleSubmit} disabled={isSubmitting}>
-              {isSubmitting ? <ActivityIndicator color="#FFF" /> : <Text style={styles.submitButtonText}>Create Session</Text>}
-            </TouchableOpacity>
-          </ScrollView>
-        </View>
-      </View>
-    </Modal>
-  );
-};
-
-/* AI-ASSISTED
-   Source/Tool: Claude Code
-   Author/Reviewer: Nikhil Kothavade
-   Date: 2025-12-06
-   Why AI: Implemented filter modal UI with date/time pickers, dropdown for signup policy, and capacity input
-   Notes: Modal follows same pattern as CreateSessionModal for consistency */
-const FilterModal: React.FC<{
-  visible: boolean;
-  onClose: () => void;
-  filterStartDate: Date | null;
-  filterEndDate: Date | null;
-  filterStartTime: string;
-  filterEndTime: string;
-  filterCapacity: string;
-  onStartDateChange: (date: Date | null) => void;
-  onEndDateChange: (date: Date | null) => void;
-  onStartTimeChange: (time: string) => void;
-  onEndTimeChange: (time: string) => void;
-  onCapacityChange: (capacity: string) => void;
-  onResetFilters: () => void;
-}> = ({
-  visible,
-  onClose,
-  filterStartDate,
-  filterEndDate,
-  filterStartTime,
-  filterEndTime,
-  filterCapacity,
-  onStartDateChange,
-  onEndDateChange,
-  onStartTimeChange,
-  onEndTimeChange,
-  onCapacityChange,
-  onResetFilters,
-}) => {
-  const [showStartDatePicker, setShowStartDatePicker] = useState(false);
-  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
-
-  const onStartDatePickerChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
-    setShowStartDatePicker(false);
-    if (selectedDate) {
-      onStartDateChange(selectedDate);
-    }
-  };
-
-  const onEndDatePickerChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
-    setShowEndDatePicker(false);
-    if (selectedDate) {
-      onEndDateChange(selectedDate);
-    }
-  };
-
-  return (
-    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
-      <View style={styles.modalBackdrop}>
-        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
-        <View style={[styles.modalContent, { height: MODAL_HEIGHT }]}>
-          <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Filter Sessions</Text>
-            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
-              <Ionicons name="close-circle" size={30} color="#6B7280" />
-            </TouchableOpacity>
-          </View>
-
-          <ScrollView
-            style={styles.formScrollView}
-            showsVerticalScrollIndicator={false}
-            keyboardShouldPersistTaps='handled'
-            contentContainerStyle={{ paddingBottom: 100 }}
-            keyboardDismissMode="on-drag"
-          >
-              {/* Date Range Filter */}
-              <Text style={styles.label}>Start Date (From)</Text>
-              <TouchableOpacity
-                onPress={() => setShowStartDatePicker(true)}
-                style={styles.dateTimePickerButton}
-              >
-                <Text style={styles.dateTimePickerText}>
-                  {filterStartDate ? formatDate(filterStartDate) : 'Select Start Date'}
-                </Text>
-              </TouchableOpacity>
-              {showStartDatePicker && (
-                <View style={styles.datePickerContainer}>
-                  <DateTimePicker
-                    value={filterStartDate || new Date()}
-                    mode="date"
-                    display="default"
-                    onChange={onStartDatePickerChange}
-                  />
-                </View>
-              )}
-
-              <Text style={styles.label}>End Date (To)</Text>
-              <TouchableOpacity
-                onPress={() => setShowEndDatePicker(true)}
-                style={styles.dateTimePickerButton}
-              >
-                <Text style={styles.dateTimePickerText}>
-                  {filterEndDate ? formatDate(filterEndDate) : 'Select End Date'}
-                </Text>
-              </TouchableOpacity>
-              {showEndDatePicker && (
-                <View style={styles.datePickerContainer}>
-                  <DateTimePicker
-                    value={filterEndDate || new Date()}
-                    mode="date"
-                    display="default"
-                    onChange={onEndDatePickerChange}
-                  />
-                </View>
-              )}
-
-              {/* Time Range Filter */}
-              <Text style={styles.label}>Start Time (HH:MM, 24-hour format)</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="e.g., 09:00"
-                placeholderTextColor="#9CA3AF"
-                value={filterStartTime}
-                onChangeText={onStartTimeChange}
-                keyboardType="numbers-and-punctuation"
-              />
-
-              <Text style={styles.label}>End Time (HH:MM, 24-hour format)</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="e.g., 17:00"
-                placeholderTextColor="#9CA3AF"
-                value={filterEndTime}
-                onChangeText={onEndTimeChange}
-                keyboardType="numbers-and-punctuation"
-              />
-
-              {/* Capacity Filter */}
-              <Text style={styles.label}>Minimum Capacity</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="e.g., 10"
-                placeholderTextColor="#9CA3AF"
-                value={filterCapacity}
-                onChangeText={onCapacityChange}
-                keyboardType="number-pad"
-              />
-              <Text style={styles.helperText}>
-                Note: Sessions without a capacity will be excluded when this filter is applied
-              </Text>
-
-              {/* Action Buttons */}
-              <View style={styles.filterButtonsContainer}>
+            <Text style={styles.label}>Sign-up</Text>
+            <View style={styles.chipRow}>
+              {SIGNUP_POLICY_OPTIONS.map(option => (
                 <TouchableOpacity
-                  style={styles.resetButton}
-                  onPress={onResetFilters}
+                  key={option.value}
+                  style={[styles.chip, signupPolicy === option.value && styles.chipSelected]}
+                  onPress={() => setSignupPolicy(option.value)}
                 >
-                  <Text style={styles.resetButtonText}>Reset Filters</Text>
+                  <Text style={[styles.chipText, signupPolicy === option.value && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
                 </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.optionHint}>
+              {SIGNUP_POLICY_OPTIONS.find(option => option.value === signupPolicy)?.description}
+            </Text>
+
+            <Text style={styles.label}>Who Can Join</Text>
+            <View style={styles.chipRow}>
+              {VISIBILITY_OPTIONS.map(option => (
                 <TouchableOpacity
-                  style={styles.applyButton}
-                  onPress={onClose}
+                  key={option.value}
+                  style={[styles.chip, visibility === option.value && styles.chipSelected]}
+                  onPress={() => setVisibility(option.value)}
                 >
-                  <Text style={styles.applyButtonText}>Apply Filters</Text>
+                  <Text style={[styles.chipText, visibility === option.value && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
                 </TouchableOpacity>
-              </View>
-            </ScrollView>
+              ))}
+            </View>
+            <Text style={styles.optionHint}>
+              {VISIBILITY_OPTIONS.find(option => option.value === visibility)?.description}
+            </Text>
+
+            {/* Repeat weekly - only when creating; series edits are scoped per occurrence */}
+            {!isEditing && (
+              <>
+                <View style={styles.repeatToggleRow}>
+                  <Text style={styles.label}>Repeat Weekly</Text>
+                  <Switch value={repeats} onValueChange={toggleRepeats} />
+                </View>
+                {repeats && (
+                  <View>
+                    <View style={styles.chipRow}>
+                      {WEEKDAYS.map(day => (
+                        <TouchableOpacity
+                          key={day.value}
+                          style={[styles.chip, repeatDays.includes(day.value) && styles.chipSelected]}
+                          onPress={() => toggleRepeatDay(day.value)}
+                        >
+                          <Text style={[styles.chipText, repeatDays.includes(day.value) && styles.chipTextSelected]}>
+                            {day.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    <View style={styles.chipRow}>
+                      {[1, 2].map(interval => (
+                        <TouchableOpacity
+                          key={interval}
+                          style={[styles.chip, repeatInterval === interval && styles.chipSelected]}
+                          onPress={() => setRepeatInterval(interval)}
+                        >
+                          <Text style={[styles.chipText, repeatInterval === interval && styles.chipTextSelected]}>
+                            {interval === 1 ? 'Every week' : 'Every 2 weeks'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    <View style={styles.chipRow}>
+                      {(['count', 'until'] as const).map(option => (
+                        <TouchableOpacity
+                          key={option}
+                          style={[styles.chip, repeatEnd === option && styles.chipSelected]}
+                          onPress={() => setRepeatEnd(option)}
+                        >
+                          <Text style={[styles.chipText, repeatEnd === option && styles.chipTextSelected]}>
+                            {option === 'count' ? 'Number of sessions' : 'Until a date'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    {repeatEnd === 'count' ? (
+                      <TextInput
+                        style={styles.input}
+                        placeholder="e.g., 10"
+                        placeholderTextColor="#9CA3AF"
+                        value={repeatCount}
+                        onChangeText={setRepeatCount}
+                        keyboardType="number-pad"
+                      />
+                    ) : (
+                      <>
+                        <TouchableOpacity
+                          onPress={() => setShowRepeatUntilPicker(!showRepeatUntilPicker)}
+                          style={styles.dateTimePickerButton}
+                        >
+                          <Text style={styles.dateTimePickerText}>
+                            {repeatUntil ? formatDate(repeatUntil) : 'Tap to choose the last date'}
+                          </Text>
+                        </TouchableOpacity>
+                        {showRepeatUntilPicker && (
+                          <View style={styles.datePickerContainer}>
+                            <DateTimePicker
+                              testID="repeatUntilPicker"
+                              value={repeatUntil || startTime}
+                              mode="date"
+                              display="default"
+                              onChange={(event, selectedDate) => {
+                                if (event.type === 'set' && selectedDate) setRepeatUntil(selectedDate);
+                                setShowRepeatUntilPicker(false);
+                              }}
+                            />
+                          </View>
+                        )}
+                      </>
+                    )}
+                  </View>
+                )}
+              </>
+            )}
+
+            <TouchableOpacity style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]} onPress={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? <ActivityIndicator color="#FFF" /> : <Text style={styles.submitButtonText}>{isEditing ? 'Save Changes' : 'Create Session'}</Text>}
+            </TouchableOpacity>
+          </ScrollView>
         </View>
       </View>
     </Modal>
@@ -892,12 +1224,20 @@ const FeedbackModal: React.FC<{
   visible: boolean;
   session: StudySession | null;
   onClose: () => void;
-  onSubmit: (sessionId: string, rating: number, comment: string) => Promise<void>;
+  onSubmit: (
+    sessionId: string,
+    rating: number,
+    comment: string,
+    details: { attributes: AttributeScores; amenities: AmenityTag[] }
+  ) => Promise<void>;
 }> = ({ visible, session, onClose, onSubmit }) => {
   // FILTER 1: Track selected star rating (1-5)
   const [rating, setRating] = useState(0);
   // FILTER 2: Track optional comment text
   const [comment, setComment] = useState('');
+  // Optional detail scores (noise, outlets, ...) and amenity tags for the spot
+  const [attributes, setAttributes] = useState<AttributeScores>({});
+  const [amenities, setAmenities] = useState<AmenityTag[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Reset form when modal opens with a new session
@@ -905,9 +1245,25 @@ const FeedbackModal: React.FC<{
     if (visible) {
       setRating(0);
       setComment('');
+      setAttributes({});
+      setAmenities([]);
     }
   }, [visible]);
 
+  // A cleared score (0) is left out rather than sent
+  const setAttribute = (key: keyof AttributeScores, score: number) => {
+    setAttributes(prev => {
+      const next = { ...prev };
+      if (score > 0) next[key] = score;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const toggleAmenity = (tag: AmenityTag) => {
+    setAmenities(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
   const handleSubmit = async () => {
     // VALIDATION: Rating is required (1-5 stars), comment is optional
     if (rating === 0) {
@@ -920,12 +1276,12 @@ const FeedbackModal: React.FC<{
     setIsSubmitting(true);
     try {
       // Submit feedback with sessionId, rating, and optional comment
-      await onSubmit(session.id, rating, comment.trim());
+      await onSubmit(session.id, rating, comment.trim(), { attributes, amenities });
       Alert.alert('Thank you!', 'Your feedback has been submitted.');
       onClose();
     } catch (error) {
       console.error('Error submitting feedback:', error);
-      Alert.alert('Error', 'Could not submit feedback. Please try again.');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not submit feedback. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -935,7 +1291,7 @@ const FeedbackModal: React.FC<{
     <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
       <View style={styles.modalBackdrop}>
         <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
-        <View style={[styles.modalContent, { height: 500 }]}>
+        <View style={[styles.modalContent, { height: MODAL_HEIGHT }]}>
           <View style={styles.modalHeader}>
             <Text style={styles.modalTitle}>Rate Your Study Session</Text>
             <TouchableOpacity onPress={onClose} style={styles.closeButton}>
@@ -989,6 +1345,41 @@ const FeedbackModal: React.FC<{
               placeholderTextColor="#9CA3AF"
             />
 
+            {/* Optional details; tap a selected star again to clear it */}
+            <Text style={styles.label}>Details (Optional)</Text>
+            {LOCATION_ATTRIBUTES.map(attribute => (
+              <View key={attribute.key} style={styles.attributeRow}>
+                <View style={styles.attributeLabelBlock}>
+                  <Text style={styles.attributeLabel}>{attribute.label}</Text>
+                  <Text style={styles.attributeHint}>1 {attribute.low} · 5 {attribute.high}</Text>
+                </View>
+                <StarRating
+                  rating={attributes[attribute.key] ?? 0}
+                  size={24}
+                  interactive
+                  clearable
+                  label={attribute.label}
+                  onRatingChange={score => setAttribute(attribute.key, score)}
+                />
+              </View>
+            ))}
+
+            <Text style={styles.label}>Amenities (Optional)</Text>
+            <View style={styles.amenityContainer}>
+              {AMENITY_TAGS.map(tag => {
+                const selected = amenities.includes(tag.key);
+                return (
+                  <TouchableOpacity
+                    key={tag.key}
+                    style={[styles.amenityChip, selected && styles.amenityChipActive]}
+                    onPress={() => toggleAmenity(tag.key)}
+                  >
+                    <Text style={[styles.amenityChipText, selected && styles.amenityChipTextActive]}>{tag.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
             <TouchableOpacity
               style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
               onPress={handleSubmit}
@@ -1009,31 +1400,29 @@ const FeedbackModal: React.FC<{
 
 // MAIN COMPONENT: StudySessionsScreen
 const StudySessionsScreen = () => {
-  const [sessions, setSessions] = useState<StudySession[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [isModalVisible, setIsModalVisible] = useState(false);
+  // Session being edited in CreateSessionModal; null means the modal creates a new one
+  const [editingSession, setEditingSession] = useState<StudySession | null>(null);
+  const [cancellingSession, setCancellingSession] = useState<StudySession | null>(null);
+  const [requestingSession, setRequestingSession] = useState<StudySession | null>(null);
+  // Series whose later occurrences are shown in the list (collapsed by default)
+  const [expandedSeries, setExpandedSeries] = useState<Set<string>>(new Set());
+
+  const toggleSeries = (seriesId: string) => {
+    setExpandedSeries(prev => {
+      const next = new Set(prev);
+      if (next.has(seriesId)) {
+        next.delete(seriesId);
+      } else {
+        next.add(seriesId);
+      }
+      return next;
+    });
+  };
 
-  /* AI-ASSISTED
-    Source/Tool: GitHub Copilot (Chat)
-    Author/Reviewer: Elias Ghanayem
-    Date: 2025-11-12
-    Why AI: Implemented a simple, flexible search state and matcher quickly.
-    Policy note: Comments are concise and policy-compliant (no long teaching notes). */
-  const [searchText, setSearchText] = useState('');
-
-  /* AI-ASSISTED
-    Source/Tool: Claude Code
-    Author/Reviewer: Nikhil Kothavade
-    Date: 2025-12-06
-    Why AI: Implemented filter state management for date, time, signup policy, and capacity filters
-    Notes: Tested with various filter combinations to ensure sessions are filtered correctly */
+  // Search and filters are shared with the Campus map (SessionFiltersContext)
+  const { searchText, setSearchText, filters } = useSessionFilters();
   const [isFilterModalVisible, setIsFilterModalVisible] = useState(false);
-  const [filterStartDate, setFilterStartDate] = useState<Date | null>(null);
-  const [filterEndDate, setFilterEndDate] = useState<Date | null>(null);
-  const [filterStartTime, setFilterStartTime] = useState<string>('');
-  const [filterEndTime, setFilterEndTime] = useState<string>('');
-  const [filterCapacity, setFilterCapacity] = useState<string>('');
 
   /* AI-ASSISTED: Feedback Modal State
      Source/Tool: Claude Code
@@ -1045,111 +1434,40 @@ const StudySessionsScreen = () => {
   const [submittedFeedbackIds, setSubmittedFeedbackIds] = useState<Set<string>>(new Set());
 
   const { user, logOut } = useAuth();
+  const router = useRouter();
+  const { sessions, loading, error } = usePublicSessions(user);
 
+  /* AI-ASSISTED: Load User's Existing Feedback
+     Source/Tool: Claude Code
+     Author/Reviewer: Arshad
+     Date: 2025-12-05
+     Why AI: Track which sessions user has already reviewed to avoid duplicate prompts.
+     Logic: Query "feedbacks" collection for current user, store session IDs in Set. */
   useEffect(() => {
     // Early return if no user - don't set up any listeners
     if (!user) {
-      setLoading(false);
-      setSessions([]); // Clear sessions when logged out
+      setSubmittedFeedbackIds(new Set()); // Clear feedback IDs when logged out
       return;
     }
 
-    // Track unsubscribe function for cleanup
     let unsubscribe: (() => void) | undefined;
 
-    // Set up Firestore listener
     try {
       const db = getFirestore(FIREBASE_APP);
-      setLogLevel('debug');
-
-      const sessionsPath = "sessions";
-      const sessionsCollectionRef = collection(db, sessionsPath);
-      const q = query(sessionsCollectionRef);
+      const feedbackCollectionRef = collection(db, 'feedbacks');
+      // Query only feedback submitted by this user
+      const q = query(feedbackCollectionRef, where('userId', '==', user.uid));
 
-      // Set up the snapshot listener (synchronously, not in async function)
       unsubscribe = onSnapshot(q, (snapshot) => {
-        const sessionList: StudySession[] = snapshot.docs.map(doc => {
-          const data = doc.data() as DocumentData;
-          // Safely handle Timestamps from Firestore
-          const startTime = data.startTime instanceof Timestamp ? data.startTime.toDate() : new Date();
-          const endTime = data.endTime instanceof Timestamp ? data.endTime.toDate() : null;
-          const createdAt = data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date();
-
-          return {
-            id: doc.id,
-            creatorId: data.creatorId || 'N/A',
-            creatorName: data.creatorName || 'Unknown',
-            course: data.course || 'Unknown Course',
-            topic: data.topic || 'No Topic',
-            locationName: data.locationName || 'Unspecified Location',
-            locationDetails: data.locationDetails,
-            locationCoords: data.locationCoords || { latitude: 0, longitude: 0 },
-            startTime,
-            endTime,
-            signupPolicy: data.signupPolicy || 'open',
-            capacity: data.capacity,
-            attendees: data.attendees || [],
-            isFull: data.isFull || false,
-            createdAt,
-          };
+        const userFeedbackSessionIds = new Set<string>();
+        snapshot.docs.forEach((doc) => {
+          const data = doc.data();
+          // Only track sessions where this user submitted feedback
+          if (data.userId === user.uid) {
+            userFeedbackSessionIds.add(data.sessionId);
+          }
         });
-        setSessions(sessionList);
-        setLoading(false);
-      }, (e) => {
-        // Only log error if it's not a permission-denied during logout
-        // (permission-denied is expected when user logs out)
-        if (e.code !== 'permission-denied') {
-          console.error("Firestore Error:", e);
-          setError('Failed to load study sessions.');
-        }
-        setLoading(false);
-      });
-
-    } catch (e) {
-      console.error("Firebase Connection Error:", e);
-      setError('Failed to connect to Firebase.');
-      setLoading(false);
-    }
-
-    // Cleanup function: unsubscribe from listener when user changes or component unmounts
-    return () => {
-      if (unsubscribe) {
-        unsubscribe();
-      }
-    };
-  }, [user]);
-
-  /* AI-ASSISTED: Load User's Existing Feedback
-     Source/Tool: Claude Code
-     Author/Reviewer: Arshad
-     Date: 2025-12-05
-     Why AI: Track which sessions user has already reviewed to avoid duplicate prompts.
-     Logic: Query "feedbacks" collection for current user, store session IDs in Set. */
-  useEffect(() => {
-    // Early return if no user - don't set up any listeners
-    if (!user) {
-      setSubmittedFeedbackIds(new Set()); // Clear feedback IDs when logged out
-      return;
-    }
-
-    let unsubscribe: (() => void) | undefined;
-
-    try {
-      const db = getFirestore(FIREBASE_APP);
-      const feedbackCollectionRef = collection(db, 'feedbacks');
-      // Query only feedback submitted by this user
-      const q = query(feedbackCollectionRef);
-
-      unsubscribe = onSnapshot(q, (snapshot) => {
-        const userFeedbackSessionIds = new Set<string>();
-        snapshot.docs.forEach((doc) => {
-          const data = doc.data();
-          // Only track sessions where this user submitted feedback
-          if (data.userId === user.uid) {
-            userFeedbackSessionIds.add(data.sessionId);
-          }
-        });
-        setSubmittedFeedbackIds(userFeedbackSessionIds);
+        setSubmittedFeedbackIds(userFeedbackSessionIds);
       }, (e) => {
         // Only log error if it's not a permission-denied during logout
         if (e.code !== 'permission-denied') {
@@ -1173,19 +1491,23 @@ const StudySessionsScreen = () => {
      Author/Reviewer: Elias Ghanayem
      Date: 2025-12-05
      Why AI: Check for sessions that ended recently and prompt user for feedback.
-     Logic: FILTER 1: User attended session
-            FILTER 2: Session has ended (startTime < now)
+     Logic: FILTER 1: User attended session (cancelled sessions have nothing to review)
+            FILTER 2: Session has ended (endTime, or 1 hour after start, < now)
             FILTER 3: User hasn't already submitted feedback for this session */
   useEffect(() => {
     if (!user || sessions.length === 0) return;
 
     const now = new Date();
 
-    // FILTER 1: Find sessions where user was an attendee
-    const attendedSessions = sessions.filter(s => s.attendees.includes(user.uid));
+    // FILTER 1: Find sessions where user was an attendee, skipping cancelled ones
+    // (the backend rejects ratings for them)
+    const attendedSessions = sessions.filter(s => s.status !== 'cancelled' && s.attendees.includes(user.uid));
 
-    // FILTER 2: Find sessions that have ended (startTime in the past)
-    const endedSessions = attendedSessions.filter(s => s.startTime < now);
+    // FILTER 2: Find sessions that have ended; sessions without an end time
+    // count as over 1 hour after start, as the backend rates them
+    const endedSessions = attendedSessions.filter(s =>
+      (s.endTime ?? new Date(s.startTime.getTime() + 60 * 60 * 1000)) < now
+    );
 
     // FILTER 3: Find sessions not yet reviewed by this user
     const needsFeedback = endedSessions.filter(s => !submittedFeedbackIds.has(s.id));
@@ -1197,133 +1519,17 @@ const StudySessionsScreen = () => {
     }
   }, [sessions, user, submittedFeedbackIds]);
 
-  /* AI-ASSISTED
-     Source/Tool: GitHub Copilot (Chat)
-     Author/Reviewer: Elias Ghanayem
-     Date: 2025-11-12
-     Why AI: Implement flexible, spacing/case-insensitive search quickly.
-     Matching rule: normalize both strings (remove non-alphanumerics, uppercase) and use includes(). */
-  const normalize = (s: string) => s.replace(/[^a-z0-9]/gi, '').toUpperCase();
-
-  /* AI-ASSISTED
-     Source/Tool: Claude Code
-     Author/Reviewer: Nikhil Kothavade
-     Date: 2025-12-06
-     Why AI: Implemented comprehensive filtering logic with date, time, signup policy, and capacity filters
-     Notes: Sessions without capacity are excluded when capacity filter is applied, as requested */
-  const getSearchedSessions = (): StudySession[] => {
-    const q = normalize(searchText || '');
-    let filtered = sessions;
-
-    // FILTER: Hide sessions that have ended
-    // If session has an explicit end time, use it; otherwise use start time + 1 hour
-    const now = new Date();
-    const oneHourInMs = 60 * 60 * 1000; // 1 hour in milliseconds (60 min × 60 sec × 1000 ms)
-    filtered = filtered.filter(s => {
-      if (s.endTime) {
-        // If session has explicit end time, hide after it passes
-        return s.endTime >= now;
-      } else {
-        // Otherwise, hide 1 hour after start time
-        const oneHourAfterStart = new Date(s.startTime.getTime() + oneHourInMs);
-        return oneHourAfterStart >= now;
-      }
-    });
-
-    // Apply search filter
-    if (q) {
-      filtered = filtered.filter(s =>
-        normalize(s.course).includes(q) || normalize(s.topic).includes(q)
-      );
-    }
-
-    // Apply date filter (start date)
-    if (filterStartDate) {
-      filtered = filtered.filter(s => {
-        const sessionDate = new Date(s.startTime);
-        sessionDate.setHours(0, 0, 0, 0);
-        const filterDate = new Date(filterStartDate);
-        filterDate.setHours(0, 0, 0, 0);
-        return sessionDate >= filterDate;
-      });
-    }
-
-    // Apply date filter (end date)
-    if (filterEndDate) {
-      filtered = filtered.filter(s => {
-        const sessionDate = new Date(s.startTime);
-        sessionDate.setHours(0, 0, 0, 0);
-        const filterDate = new Date(filterEndDate);
-        filterDate.setHours(0, 0, 0, 0);
-        return sessionDate <= filterDate;
-      });
-    }
-
-    // Apply time filter (start time)
-    if (filterStartTime) {
-      const [hours, minutes] = filterStartTime.split(':').map(Number);
-      if (!isNaN(hours) && !isNaN(minutes)) {
-        filtered = filtered.filter(s => {
-          const sessionHours = s.startTime.getHours();
-          const sessionMinutes = s.startTime.getMinutes();
-          const sessionTimeInMinutes = sessionHours * 60 + sessionMinutes;
-          const filterTimeInMinutes = hours * 60 + minutes;
-          return sessionTimeInMinutes >= filterTimeInMinutes;
-        });
-      }
-    }
-
-    // Apply time filter (end time)
-    if (filterEndTime) {
-      const [hours, minutes] = filterEndTime.split(':').map(Number);
-      if (!isNaN(hours) && !isNaN(minutes)) {
-        filtered = filtered.filter(s => {
-          const sessionHours = s.startTime.getHours();
-          const sessionMinutes = s.startTime.getMinutes();
-          const sessionTimeInMinutes = sessionHours * 60 + sessionMinutes;
-          const filterTimeInMinutes = hours * 60 + minutes;
-          return sessionTimeInMinutes <= filterTimeInMinutes;
-        });
-      }
-    }
-
-    // Apply capacity filter (exclude sessions without capacity when filter is set)
-    if (filterCapacity) {
-      const minCapacity = parseInt(filterCapacity, 10);
-      if (!isNaN(minCapacity)) {
-        filtered = filtered.filter(s => {
-          // Exclude sessions without a defined capacity
-          if (s.capacity === undefined || s.capacity === null) {
-            return false;
-          }
-          return s.capacity >= minCapacity;
-        });
-      }
-    }
-
-    return filtered;
-  };
-
-  // Reset all filters
-  const handleResetFilters = () => {
-    setFilterStartDate(null);
-    setFilterEndDate(null);
-    setFilterStartTime('');
-    setFilterEndTime('');
-    setFilterCapacity('');
-  };
+  const searchedSessionGroups = groupBySeries(
+    [...filterSessions(sessions, searchText, filters, user?.uid)].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+  );
 
   /* ============ SESSION JOIN/LEAVE FUNCTIONS ============
-     AI-ASSISTED
-     Source/Tool: GitHub Copilot (Chat) + Manual Implementation
-     Author/Reviewer: Aryan
-     Date: 2025-11-11
-     Why AI: Needed Firestore transaction logic for safe concurrent updates to attendee lists.
-     Notes: Tested join/leave with multiple users simultaneously. Verified capacity limits,
-            isFull flag updates, and user already-joined validation. */
+     Join/leave go through the backend (POST /sessions/:id/join and /leave),
+     which enforces capacity, signup policy and duplicate joins inside a
+     Firestore transaction. The onSnapshot listener picks up the new
+     attendees list, so no local state update is needed here. */
 
   // JOIN SESSION FUNCTION
-  // This function adds the current user to a study session's attendee list
   const handleJoinSession = async (sessionId: string) => {
     // Safety check: Make sure we have a logged-in user
     if (!user) {
@@ -1332,132 +1538,134 @@ const StudySessionsScreen = () => {
     }
 
     try {
-      // Get a reference to the Firestore database
-      const db = getFirestore(FIREBASE_APP);
-      // Get a reference to the specific session document we want to update
-      const sessionRef = doc(db, 'sessions', sessionId);
-
-      // runTransaction ensures data consistency (prevents race conditions)
-      // It works like this:
-      // 1. Read the current data
-      // 2. Make changes based on that data
-      // 3. Only save if the data hasn't changed since step 1
-      await runTransaction(db, async (transaction) => {
-        // Step 1: Read the current session data
-        const sessionDoc = await transaction.get(sessionRef);
-
-        // Check if the session exists
-        if (!sessionDoc.exists()) {
-          throw new Error('Session does not exist');
-        }
-
-        // Get the current data from the document
-        const sessionData = sessionDoc.data();
-        const currentAttendees = sessionData.attendees || [];
-        const capacity = sessionData.capacity;
-
-        // VALIDATION CHECKS
-
-        // Check 1: Is the user already in this session?
-        if (currentAttendees.includes(user.uid)) {
-          throw new Error('You are already in this session');
-        }
-
-        // Check 2: Is the session full?
-        // (Only if capacity is defined)
-        if (capacity && currentAttendees.length >= capacity) {
-          throw new Error('Session is full');
-        }
-
-        // Step 2: Update the session
-        // Add the user's ID to the attendees array
-        const newAttendees = [...currentAttendees, user.uid];
-
-        // Check if session should now be marked as full
-        const isFull = capacity ? newAttendees.length >= capacity : false;
-
-        // Step 3: Save the changes to Firestore
-        transaction.update(sessionRef, {
-          attendees: newAttendees,
-          isFull: isFull
-        });
-      });
-
-      // Success! Show a message to the user
+      await joinSession(sessionId);
       alert('Joined!');
 
+      const joined = sessions.find(s => s.id === sessionId);
+      if (joined) {
+        scheduleSessionReminder(joined.startTime, sessionId, joined)
+          .catch(error => console.error('Error scheduling reminder:', error));
+      }
     } catch (error) {
-      // If anything goes wrong, show the error message
+      // Server rejections (full, already joined, ended) arrive as error messages
       console.error('Error joining session:', error);
       alert(error instanceof Error ? error.message : 'Failed to join session');
     }
   };
 
   // LEAVE SESSION FUNCTION
-  // This removes the current user from the attendees array
   const handleLeaveSession = async (sessionId: string) => {
     // Check if user is logged in
     if (!user) {
       alert("You must be logged in to leave a session!");
       return;
     }
-    
+
     try {
-      // Get database reference
-      const db = getFirestore(FIREBASE_APP);
-      // Get session document reference
-      const sessionRef = doc(db, 'sessions', sessionId);
-      
-      // Use runTransaction to safely update the data
-      await runTransaction(db, async (transaction) => {
-        const sessionDoc = await transaction.get(sessionRef);
-
-        if (!sessionDoc.exists()) {
-          throw new Error('Session does not exist');
-        }
+      await leaveSession(sessionId);
+      alert('Left!');
+      await cancelSessionReminderBySessionId(sessionId);
+    } catch (error) {
+      console.error('Error leaving session:', error);
+      alert(error instanceof Error ? error.message : 'Failed to leave session');
+    }
+  };
+  
+  // WAITLIST FUNCTIONS
+  // Queue for a full session; the backend promotes the first in line when a spot opens
+  const handleJoinWaitlist = async (sessionId: string) => {
+    if (!user) {
+      alert('You must be logged in to join a waitlist');
+      return;
+    }
+
+    try {
+      const { position } = await joinWaitlist(sessionId);
+      alert(`You're #${position} on the waitlist. We'll notify you if a spot opens up.`);
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      alert(error instanceof Error ? error.message : 'Failed to join waitlist');
+    }
+  };
 
-        // Get the current data from the document
-        const sessionData = sessionDoc.data();
-        const currentAttendees = sessionData.attendees || [];
+  const handleLeaveWaitlist = async (sessionId: string) => {
+    if (!user) {
+      alert('You must be logged in to leave a waitlist');
+      return;
+    }
 
-        // VALIDATION CHECK: Is the user actually IN this session?
-        if (!currentAttendees.includes(user.uid)) {
-          throw new Error('Error: You are not in this session');
-        }
+    try {
+      await leaveWaitlist(sessionId);
+      alert('Left the waitlist.');
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      alert(error instanceof Error ? error.message : 'Failed to leave waitlist');
+    }
+  };
 
-        // Remove user from attendees using filter
-        const newAttendees = currentAttendees.filter((attendee: string) => attendee !== user.uid);
+  // JOIN REQUESTS ("required" sessions); the request itself is sent from JoinRequestModal
+  const handleWithdrawRequest = async (sessionId: string) => {
+    try {
+      await withdrawJoinRequest(sessionId);
+      alert('Request withdrawn.');
+    } catch (error) {
+      console.error('Error withdrawing join request:', error);
+      alert(error instanceof Error ? error.message : 'Failed to withdraw request');
+    }
+  };
 
-        // Save the changes to Firestore
-        transaction.update(sessionRef, {
-          attendees: newAttendees,
-          isFull: false  // Session can't be full if someone just left
-        });
-      });
-      
-      // Show success message
-      alert('Left!');
+  // "I might come" (open sessions) and drop-in check-in (preferred sessions); neither takes a spot
+  const handleSetInterest = async (sessionId: string, interested: boolean) => {
+    try {
+      await setInterest(sessionId, interested);
+    } catch (error) {
+      console.error('Error updating interest:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update');
+    }
+  };
 
+  const handleSetDropIn = async (sessionId: string, checkedIn: boolean) => {
+    try {
+      await setDropIn(sessionId, checkedIn);
+      alert(checkedIn ? 'Checked in. Enjoy the session!' : 'Checked out.');
     } catch (error) {
-      console.error('Error leaving session:', error);
-      alert(error instanceof Error ? error.message : 'Failed to leave session');
+      console.error('Error updating drop-in:', error);
+      alert(error instanceof Error ? error.message : 'Failed to check in');
     }
   };
-  
+
+  const openSessionDetails = (session: StudySession) => {
+    router.push({ pathname: '/session/[id]', params: { id: session.id } });
+  };
+
+  // Hosts edit through the same form they created the session with
+  const handleEditSession = (session: StudySession) => {
+    setEditingSession(session);
+    setIsModalVisible(true);
+  };
+
   /* AI-ASSISTED: Submit Session Feedback
      Source/Tool: Claude Code
      Author/Reviewer: Arshad
      Date: 2025-12-05
      Why AI: Store feedback in Firestore with proper validation.
      Logic: Write to "feedbacks" collection with sessionId, userId, rating, comment, timestamp */
-  const handleSubmitFeedback = async (sessionId: string, rating: number, comment: string) => {
+  // Sessions at a spot go through POST /sessions/:id/rating, which writes the
+  // feedback together with the spot's locationRatings review (keyed by
+  // generateLocationId like the session detail screen and location pages), so
+  // a failed rating leaves nothing saved and the prompt can be retried
+  const handleSubmitFeedback = async (
+    sessionId: string,
+    rating: number,
+    comment: string,
+    details: { attributes: AttributeScores; amenities: AmenityTag[] }
+  ) => {
     if (!user) {
       throw new Error('You must be logged in to submit feedback');
     }
 
     try {
       const db = getFirestore(FIREBASE_APP);
-      const feedbackCollectionRef = collection(db, 'feedbacks');
 
       // Find the session to get location name (denormalized for analytics)
       const session = sessions.find(s => s.id === sessionId);
@@ -1465,15 +1673,30 @@ const StudySessionsScreen = () => {
         throw new Error('Session not found');
       }
 
-      // Create feedback document
-      await addDoc(feedbackCollectionRef, {
-        sessionId,
-        userId: user.uid,
-        locationName: session.locationName,
-        rating,
-        comment: comment || undefined, // Only store comment if not empty
-        createdAt: serverTimestamp(),
-      });
+      // Sessions without map coordinates have no spot to rate
+      const locationId = hasMapCoords(session)
+        ? generateLocationId(undefined, session.locationName, session.locationCoords)
+        : null;
+      if (locationId && !(await canUserRateLocation(locationId, user.uid, sessionId))) {
+        setSubmittedFeedbackIds(prev => new Set(prev).add(sessionId));
+        throw new Error('You have already rated this spot for this session.');
+      }
+
+      if (locationId) {
+        await addOrUpdateRating(sessionId, rating, comment, details);
+      } else {
+        // No spot to rate: create the feedback document directly, under the
+        // same one-per-person id the backend uses (the rules reject a second write)
+        await setDoc(doc(db, 'feedbacks', `${sessionId}_${user.uid}`), {
+          sessionId,
+          userId: user.uid,
+          locationName: session.locationName,
+          rating,
+          // Only store comment if not empty (Firestore rejects undefined values)
+          ...(comment ? { comment } : {}),
+          createdAt: serverTimestamp(),
+        });
+      }
 
       console.log('Feedback submitted successfully');
 
@@ -1519,22 +1742,17 @@ const StudySessionsScreen = () => {
   
   return (
     <SafeAreaView style={styles.container}>
-      <CreateSessionModal visible={isModalVisible} onClose={() => setIsModalVisible(false)} />
-      <FilterModal
-        visible={isFilterModalVisible}
-        onClose={() => setIsFilterModalVisible(false)}
-        filterStartDate={filterStartDate}
-        filterEndDate={filterEndDate}
-        filterStartTime={filterStartTime}
-        filterEndTime={filterEndTime}
-        filterCapacity={filterCapacity}
-        onStartDateChange={setFilterStartDate}
-        onEndDateChange={setFilterEndDate}
-        onStartTimeChange={setFilterStartTime}
-        onEndTimeChange={setFilterEndTime}
-        onCapacityChange={setFilterCapacity}
-        onResetFilters={handleResetFilters}
+      <CreateSessionModal
+        visible={isModalVisible}
+        session={editingSession}
+        onClose={() => {
+          setIsModalVisible(false);
+          setEditingSession(null);
+        }}
       />
+      <CancelSessionModal session={cancellingSession} onClose={() => setCancellingSession(null)} />
+      <JoinRequestModal session={requestingSession} onClose={() => setRequestingSession(null)} />
+      <FilterModal visible={isFilterModalVisible} onClose={() => setIsFilterModalVisible(false)} />
       <FeedbackModal
         visible={isFeedbackModalVisible}
         session={sessionToReview}
@@ -1575,7 +1793,9 @@ const StudySessionsScreen = () => {
             accessibilityLabel="Open filters"
           >
             <Ionicons name="options-outline" size={20} color="#3B82F6" />
-            <Text style={styles.filterButtonText}>Filters</Text>
+            <Text style={styles.filterButtonText}>
+              Filters{countActiveFilters(filters) > 0 ? ` (${countActiveFilters(filters)})` : ''}
+            </Text>
           </TouchableOpacity>
         </View>
 
@@ -1588,16 +1808,32 @@ const StudySessionsScreen = () => {
           )}
 
           {/* Use searched sessions (flexible spacing/case-insensitive match) */}
-          {getSearchedSessions().length > 0 ? (
-            getSearchedSessions().map(session => (
-              <SessionCard
-                key={session.id}
-                session={session}
-                currentUserId={user?.uid}
-                onJoin={handleJoinSession}
-                onLeave={handleLeaveSession}
-              />
-            ))
+          {searchedSessionGroups.length > 0 ? (
+            // Recurring sessions show their next date; the rest expand underneath
+            searchedSessionGroups.map(([next, ...others]) => {
+              const expanded = !!next.seriesId && expandedSeries.has(next.seriesId);
+              return [next, ...(expanded ? others : [])].map((session, index) => (
+                <SessionCard
+                  key={session.id}
+                  session={session}
+                  currentUserId={user?.uid}
+                  onJoin={handleJoinSession}
+                  onLeave={handleLeaveSession}
+                  onJoinWaitlist={handleJoinWaitlist}
+                  onLeaveWaitlist={handleLeaveWaitlist}
+                  onRequestJoin={setRequestingSession}
+                  onWithdrawRequest={handleWithdrawRequest}
+                  onSetInterest={handleSetInterest}
+                  onSetDropIn={handleSetDropIn}
+                  onEdit={handleEditSession}
+                  onCancel={setCancellingSession}
+                  onOpen={openSessionDetails}
+                  series={index === 0 && next.seriesId
+                    ? { otherCount: others.length, expanded, onToggle: () => toggleSeries(next.seriesId!) }
+                    : undefined}
+                />
+              ));
+            })
           ) : (
             <View style={styles.emptyStateContainer}>
               <Ionicons name="search" size={48} color="#9CA3AF" />
@@ -1690,6 +1926,17 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     marginBottom: 16,
   },
+  detailsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: -10,
+    marginBottom: 12,
+  },
+  detailsLinkText: {
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
   badge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -1711,28 +1958,6 @@ const styles = StyleSheet.create({
   locationBlock: {
     marginBottom: 15,
   },
-  detailRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingVertical: 4,
-  },
-  detailIcon: {
-    width: 30,
-    textAlign: 'center',
-  },
-  detailLabel: {
-    fontSize: 15,
-    color: '#6B7280', 
-    marginLeft: 4,
-    flex: 1,
-  },
-  detailValue: {
-    fontSize: 15,
-    fontWeight: '600',
-    color: '#1F2937',
-    textAlign: 'right',
-    flexShrink: 1,
-  },
   locationDetailsText: {
     fontSize: 14,
     color: '#6B7280',
@@ -1916,6 +2141,54 @@ const styles = StyleSheet.create({
     color: '#3B82F6',
     fontWeight: '600',
   },
+  repeatToggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#F9FAFB',
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  optionHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 15,
+  },
+  seriesToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    marginBottom: 10,
+  },
+  seriesToggleText: {
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
   datePickerContainer: {
     backgroundColor: '#F9FAFB',
     borderWidth: 1,
@@ -1927,6 +2200,51 @@ const styles = StyleSheet.create({
     alignSelf: 'center',
     width: '80%',
   },
+  attributeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  attributeLabelBlock: {
+    flex: 1,
+    marginRight: 8,
+  },
+  attributeLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  attributeHint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  amenityContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  amenityChip: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  amenityChipActive: {
+    backgroundColor: '#F59E0B',
+    borderColor: '#F59E0B',
+  },
+  amenityChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4B5563',
+  },
+  amenityChipTextActive: {
+    color: 'white',
+  },
   submitButton: {
     backgroundColor: '#3B82F6',
     borderRadius: 8,
@@ -1943,6 +2261,47 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  // Rated study spot picker (CreateSessionModal)
+  spotPicker: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  spotPickerToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  spotPickerToggleText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  spotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  spotName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1F2937',
+    marginRight: 8,
+  },
+  spotRating: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  spotEmptyText: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontStyle: 'italic',
+    paddingVertical: 8,
+  },
   // Selected location display styles
   selectedLocationContainer: {
     backgroundColor: '#EFF6FF',
@@ -2053,76 +2412,23 @@ const styles = StyleSheet.create({
     marginLeft: 6,
   },
 
-  // Policy selection buttons container
-  policyButtonsContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 8,
-    marginBottom: 12,
-  },
-  policyButton: {
-    width: '48%',
-    backgroundColor: '#F3F4F6',
+  // "I might come" / early drop-in, under the main join button
+  secondaryAttendanceButton: {
+    marginTop: 10,
+    paddingVertical: 10,
     borderWidth: 1,
-    borderColor: '#D1D5DB',
-    borderRadius: 8,
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  policyButtonActive: {
-    backgroundColor: '#3B82F6',
     borderColor: '#3B82F6',
-  },
-  policyButtonText: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#4B5563',
-  },
-  policyButtonTextActive: {
-    color: 'white',
-  },
-
-  // Helper text for capacity filter
-  helperText: {
-    fontSize: 12,
-    color: '#6B7280',
-    marginTop: 4,
-    fontStyle: 'italic',
-  },
-
-  // Filter action buttons container
-  filterButtonsContainer: {
-    flexDirection: 'row',
-    gap: 12,
-    marginTop: 24,
-    marginBottom: 20,
-  },
-  resetButton: {
-    flex: 1,
-    backgroundColor: '#F3F4F6',
-    borderWidth: 1,
-    borderColor: '#D1D5DB',
-    borderRadius: 8,
-    paddingVertical: 12,
+    borderRadius: 6,
     alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
   },
-  resetButtonText: {
-    color: '#4B5563',
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  applyButton: {
-    flex: 1,
-    backgroundColor: '#3B82F6',
-    borderRadius: 8,
-    paddingVertical: 12,
-    alignItems: 'center',
+  secondaryAttendanceButtonActive: {
+    backgroundColor: '#EFF6FF',
   },
-  applyButtonText: {
-    color: 'white',
-    fontSize: 16,
+  secondaryAttendanceText: {
+    color: '#3B82F6',
     fontWeight: '600',
   },
 });
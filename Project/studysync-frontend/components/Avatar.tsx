@@ -0,0 +1,60 @@
+/* Round initials avatar for roster entries. The color comes from the uid so
+   a person looks the same on every session; anonymous people get a plain
+   grey silhouette. */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+const AVATAR_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6366F1'];
+
+interface AvatarProps {
+  uid: string;
+  name: string;
+  anonymous?: boolean;
+  size?: number;
+}
+
+const colorFor = (uid: string) => {
+  let hash = 0;
+  for (const char of uid) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
+
+// "Ada Lovelace" -> "AL", "ada" -> "A"
+const initialsOf = (name: string) =>
+  name.trim().split(/\s+/).slice(0, 2).map(part => part.charAt(0).toUpperCase()).join('') || '?';
+
+export const Avatar: React.FC<AvatarProps> = ({ uid, name, anonymous = false, size = 36 }) => {
+  const circle = { width: size, height: size, borderRadius: size / 2 };
+
+  if (anonymous) {
+    return (
+      <View style={[styles.avatar, circle, styles.anonymous]}>
+        <Ionicons name="person" size={size * 0.55} color="white" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.avatar, circle, { backgroundColor: colorFor(uid) }]}>
+      <Text style={[styles.initials, { fontSize: size * 0.4 }]}>{initialsOf(name)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  avatar: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  anonymous: {
+    backgroundColor: '#9CA3AF',
+  },
+  initials: {
+    color: 'white',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,182 @@
+/* Host confirmation for cancelling a session (used by the session list and profile).
+   Asks for a reason, calls POST /sessions/:id/cancel and drops the host's own
+   reminder; attendees are notified by the backend. */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { cancelSession } from '../utils/api';
+import { cancelSessionReminderBySessionId } from '../notificationService';
+
+interface CancelSessionModalProps {
+  // Session to cancel; the modal is shown while this is set
+  session: { id: string; course: string; topic: string; seriesId?: string | null } | null;
+  onClose: () => void;
+}
+
+export const CancelSessionModal: React.FC<CancelSessionModalProps> = ({ session, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [cancelFuture, setCancelFuture] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start with an empty reason for each session
+  useEffect(() => {
+    if (session) {
+      setReason('');
+      setCancelFuture(false);
+    }
+  }, [session]);
+
+  const handleConfirm = async () => {
+    if (!session) return;
+    if (!reason.trim()) {
+      Alert.alert('Reason Required', 'Let attendees know why the session is cancelled.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { cancelledIds } = await cancelSession(session.id, reason.trim(), cancelFuture ? 'future' : 'this');
+      for (const id of cancelledIds) {
+        await cancelSessionReminderBySessionId(id);
+      }
+      Alert.alert('Session Cancelled', 'Attendees have been notified.');
+      onClose();
+    } catch (error) {
+      console.error('Error cancelling session:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not cancel the session.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!session} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.content} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Cancel Session</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color="#4B5563" />
+            </TouchableOpacity>
+          </View>
+          {session && (
+            <Text style={styles.subtitle}>
+              {session.course} — {session.topic}
+            </Text>
+          )}
+          <TextInput
+            style={styles.input}
+            placeholder="Reason (e.g., Room unavailable)"
+            placeholderTextColor="#9CA3AF"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+            maxLength={500}
+          />
+          {session?.seriesId && (
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Also cancel all future sessions in this series</Text>
+              <Switch value={cancelFuture} onValueChange={setCancelFuture} />
+            </View>
+          )}
+          <Text style={styles.hint}>
+            The session stays in attendees&apos; history marked as cancelled.
+          </Text>
+          <TouchableOpacity
+            style={[styles.confirmButton, isSubmitting && { opacity: 0.6 }]}
+            onPress={handleConfirm}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#FFF" />
+            ) : (
+              <Text style={styles.confirmButtonText}>Cancel Session</Text>
+            )}
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#EF4444',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
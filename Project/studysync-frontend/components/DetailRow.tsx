@@ -0,0 +1,46 @@
+/* Icon, label and value on one line: the detail rows of SessionCard in
+   app/studysessions.tsx and of the session detail screen. */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface DetailRowProps {
+  iconName: keyof typeof Ionicons.glyphMap;
+  label: string;
+  value: string | number;
+  numberOfLines?: number;   // Truncate long values, e.g. on list cards
+}
+
+export const DetailRow: React.FC<DetailRowProps> = ({ iconName, label, value, numberOfLines }) => (
+  <View style={styles.detailRow}>
+    <Ionicons name={iconName} size={20} color="#3B82F6" style={styles.detailIcon} />
+    <Text style={styles.detailLabel}>{label}</Text>
+    <Text style={styles.detailValue} numberOfLines={numberOfLines}>{value}</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  detailIcon: {
+    width: 30,
+    textAlign: 'center',
+  },
+  detailLabel: {
+    fontSize: 15,
+    color: '#6B7280',
+    marginLeft: 4,
+    flex: 1,
+  },
+  detailValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+    textAlign: 'right',
+    flexShrink: 1,
+  },
+});
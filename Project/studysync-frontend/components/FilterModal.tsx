@@ -0,0 +1,345 @@
+/* FilterModal, moved out of app/studysessions.tsx so the Campus map can use
+   it too. Values come from SessionFiltersContext, so a filter set on one
+   screen applies to the other. */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Pressable,
+  Dimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+
+import { useSessionFilters } from '../app/contexts/SessionFiltersContext';
+import { ATTENDANCE_FILTER_OPTIONS } from '../utils/sessionFilters';
+import { SIGNUP_POLICY_OPTIONS, formatDate } from '../utils/sessions';
+
+// Same height as CreateSessionModal
+const MODAL_HEIGHT = Dimensions.get('window').height * 0.85;
+
+/* AI-ASSISTED
+   Source/Tool: Claude Code
+   Author/Reviewer: Nikhil Kothavade
+   Date: 2025-12-06
+   Why AI: Implemented filter modal UI with date/time pickers, dropdown for signup policy, and capacity input
+   Notes: Modal follows same pattern as CreateSessionModal for consistency */
+export const FilterModal: React.FC<{
+  visible: boolean;
+  onClose: () => void;
+}> = ({ visible, onClose }) => {
+  const { filters, updateFilters, resetFilters } = useSessionFilters();
+  const [showStartDatePicker, setShowStartDatePicker] = useState(false);
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+
+  const onStartDatePickerChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    setShowStartDatePicker(false);
+    if (selectedDate) {
+      updateFilters({ startDate: selectedDate });
+    }
+  };
+
+  const onEndDatePickerChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    setShowEndDatePicker(false);
+    if (selectedDate) {
+      updateFilters({ endDate: selectedDate });
+    }
+  };
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalBackdrop}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={[styles.modalContent, { height: MODAL_HEIGHT }]}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Filter Sessions</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close-circle" size={30} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.formScrollView}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps='handled'
+            contentContainerStyle={{ paddingBottom: 100 }}
+            keyboardDismissMode="on-drag"
+          >
+              {/* Date Range Filter */}
+              <Text style={styles.label}>Start Date (From)</Text>
+              <TouchableOpacity
+                onPress={() => setShowStartDatePicker(true)}
+                style={styles.dateTimePickerButton}
+              >
+                <Text style={styles.dateTimePickerText}>
+                  {filters.startDate ? formatDate(filters.startDate) : 'Select Start Date'}
+                </Text>
+              </TouchableOpacity>
+              {showStartDatePicker && (
+                <View style={styles.datePickerContainer}>
+                  <DateTimePicker
+                    value={filters.startDate || new Date()}
+                    mode="date"
+                    display="default"
+                    onChange={onStartDatePickerChange}
+                  />
+                </View>
+              )}
+
+              <Text style={styles.label}>End Date (To)</Text>
+              <TouchableOpacity
+                onPress={() => setShowEndDatePicker(true)}
+                style={styles.dateTimePickerButton}
+              >
+                <Text style={styles.dateTimePickerText}>
+                  {filters.endDate ? formatDate(filters.endDate) : 'Select End Date'}
+                </Text>
+              </TouchableOpacity>
+              {showEndDatePicker && (
+                <View style={styles.datePickerContainer}>
+                  <DateTimePicker
+                    value={filters.endDate || new Date()}
+                    mode="date"
+                    display="default"
+                    onChange={onEndDatePickerChange}
+                  />
+                </View>
+              )}
+
+              {/* Time Range Filter */}
+              <Text style={styles.label}>Start Time (HH:MM, 24-hour format)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., 09:00"
+                placeholderTextColor="#9CA3AF"
+                value={filters.startTime}
+                onChangeText={startTime => updateFilters({ startTime })}
+                keyboardType="numbers-and-punctuation"
+              />
+
+              <Text style={styles.label}>End Time (HH:MM, 24-hour format)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., 17:00"
+                placeholderTextColor="#9CA3AF"
+                value={filters.endTime}
+                onChangeText={endTime => updateFilters({ endTime })}
+                keyboardType="numbers-and-punctuation"
+              />
+
+              {/* Capacity Filter */}
+              <Text style={styles.label}>Minimum Capacity</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., 10"
+                placeholderTextColor="#9CA3AF"
+                value={filters.capacity}
+                onChangeText={capacity => updateFilters({ capacity })}
+                keyboardType="number-pad"
+              />
+              <Text style={styles.helperText}>
+                Note: Sessions without a capacity will be excluded when this filter is applied
+              </Text>
+
+              {/* Sign-up Policy Filter */}
+              <Text style={styles.label}>Sign-up</Text>
+              <View style={styles.policyButtonsContainer}>
+                {[{ value: null, label: 'Any' }, ...SIGNUP_POLICY_OPTIONS].map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.policyButton, filters.signupPolicy === option.value && styles.policyButtonActive]}
+                    onPress={() => updateFilters({ signupPolicy: option.value })}
+                  >
+                    <Text style={[styles.policyButtonText, filters.signupPolicy === option.value && styles.policyButtonTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Attendance Status Filter */}
+              <Text style={styles.label}>Status</Text>
+              <View style={styles.policyButtonsContainer}>
+                {ATTENDANCE_FILTER_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.policyButton, filters.status === option.value && styles.policyButtonActive]}
+                    onPress={() => updateFilters({ status: option.value })}
+                  >
+                    <Text style={[styles.policyButtonText, filters.status === option.value && styles.policyButtonTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Action Buttons */}
+              <View style={styles.filterButtonsContainer}>
+                <TouchableOpacity
+                  style={styles.resetButton}
+                  onPress={resetFilters}
+                >
+                  <Text style={styles.resetButtonText}>Reset Filters</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.applyButton}
+                  onPress={onClose}
+                >
+                  <Text style={styles.applyButtonText}>Apply Filters</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  applyButton: {
+    flex: 1,
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  datePickerContainer: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+    alignItems: 'center',
+    alignSelf: 'center',
+    width: '80%',
+  },
+  dateTimePickerButton: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    alignSelf: 'center',
+    width: '80%',
+  },
+  dateTimePickerText: {
+    fontSize: 16,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  filterButtonsContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+    marginBottom: 20,
+  },
+  formScrollView: {
+    flex: 1,
+    marginTop: 10,
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingBottom: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  policyButton: {
+    width: '48%',
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  policyButtonActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  policyButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4B5563',
+  },
+  policyButtonTextActive: {
+    color: 'white',
+  },
+  policyButtonsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  resetButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    color: '#4B5563',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,155 @@
+/* Join request for a "required" session (used by the session list, the
+   detail screen and invite links). Takes an optional note for the host and
+   calls POST /sessions/:id/requests; the host is notified by the backend. */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { requestToJoin } from '../utils/api';
+
+interface JoinRequestModalProps {
+  // Session to request; the modal is shown while this is set
+  session: { id: string; course: string; topic: string } | null;
+  // Invite-only sessions need the code from their invite link
+  inviteCode?: string;
+  onClose: () => void;
+  onRequested?: () => void;
+}
+
+export const JoinRequestModal: React.FC<JoinRequestModalProps> = ({ session, inviteCode, onClose, onRequested }) => {
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start with an empty note for each session
+  useEffect(() => {
+    if (session) setNote('');
+  }, [session]);
+
+  const handleSubmit = async () => {
+    if (!session) return;
+
+    setIsSubmitting(true);
+    try {
+      await requestToJoin(session.id, note.trim() || undefined, inviteCode);
+      Alert.alert('Request Sent', "The host will review your request. We'll notify you when they decide.");
+      onRequested?.();
+      onClose();
+    } catch (error) {
+      console.error('Error sending join request:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not send your request.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!session} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.content} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Request to Join</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={28} color="#4B5563" />
+            </TouchableOpacity>
+          </View>
+          {session && (
+            <Text style={styles.subtitle}>
+              {session.course} — {session.topic}
+            </Text>
+          )}
+          <TextInput
+            style={styles.input}
+            placeholder="Note for the host (optional), e.g. which sections you've finished"
+            placeholderTextColor="#9CA3AF"
+            value={note}
+            onChangeText={setNote}
+            multiline
+            maxLength={500}
+          />
+          <Text style={styles.hint}>
+            The host approves each attendee. You&apos;ll get a spot once they accept.
+          </Text>
+          <TouchableOpacity
+            style={[styles.confirmButton, isSubmitting && { opacity: 0.6 }]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#FFF" />
+            ) : (
+              <Text style={styles.confirmButtonText}>Send Request</Text>
+            )}
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#3B82F6',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,145 @@
+/* Host view of pending join requests for one "required" session (used by
+   Profile and the session detail screen). Requests are loaded from
+   GET /sessions/:id/requests whenever the session's pendingRequests change;
+   approving or declining notifies the requester from the backend. */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { getJoinRequests, answerJoinRequest, JoinRequest } from '../utils/api';
+
+interface JoinRequestsListProps {
+  session: { id: string; course: string; topic: string; startTime: Date; pendingRequests: string[] };
+  // Profile lists several sessions, so it labels each group
+  showSessionTitle?: boolean;
+}
+
+export const JoinRequestsList: React.FC<JoinRequestsListProps> = ({ session, showSessionTitle = false }) => {
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+
+  // Refetch when someone requests or withdraws (the session snapshot changes)
+  const pendingKey = session.pendingRequests.join(',');
+  useEffect(() => {
+    if (!pendingKey) {
+      setRequests([]);
+      setLoading(false);
+      return;
+    }
+    getJoinRequests(session.id)
+      .then(({ requests }) => setRequests(requests))
+      .catch(error => console.error('Error loading join requests:', error))
+      .finally(() => setLoading(false));
+  }, [session.id, pendingKey]);
+
+  const handleAnswer = async (request: JoinRequest, approve: boolean) => {
+    setAnsweringId(request.userId);
+    try {
+      await answerJoinRequest(session.id, request.userId, approve);
+      setRequests(prev => prev.filter(r => r.userId !== request.userId));
+    } catch (error) {
+      console.error('Error answering join request:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not update the request.');
+    } finally {
+      setAnsweringId(null);
+    }
+  };
+
+  if (loading) {
+    return <ActivityIndicator color="#3B82F6" style={styles.loading} />;
+  }
+  if (requests.length === 0) return null;
+
+  return (
+    <View>
+      {showSessionTitle && (
+        <Text style={styles.sessionTitle}>
+          {session.course} — {session.topic} · {session.startTime.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </Text>
+      )}
+      {requests.map(request => (
+        <View key={request.userId} style={styles.requestRow}>
+          <Ionicons name="person-circle-outline" size={28} color="#6B7280" />
+          <View style={styles.requestText}>
+            <Text style={styles.requestName}>{request.userName}</Text>
+            {request.note && <Text style={styles.requestNote}>&ldquo;{request.note}&rdquo;</Text>}
+          </View>
+          {answeringId === request.userId ? (
+            <ActivityIndicator color="#3B82F6" />
+          ) : (
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.declineButton]}
+                onPress={() => handleAnswer(request, false)}
+                disabled={answeringId !== null}
+                accessibilityLabel={`Decline ${request.userName}`}
+              >
+                <Ionicons name="close" size={18} color="#EF4444" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.approveButton]}
+                onPress={() => handleAnswer(request, true)}
+                disabled={answeringId !== null}
+                accessibilityLabel={`Approve ${request.userName}`}
+              >
+                <Ionicons name="checkmark" size={18} color="white" />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 8,
+  },
+  sessionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  requestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 10,
+  },
+  requestText: {
+    flex: 1,
+  },
+  requestName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  requestNote: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  declineButton: {
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  approveButton: {
+    backgroundColor: '#10B981',
+  },
+});
@@ -0,0 +1,99 @@
+/* Who is coming to a session, for the session detail screen. Names come from
+   GET /sessions/:id/roster (users/{uid} is owner-only), refetched whenever
+   the session's attendance lists change. People who chose to stay anonymous
+   appear as "Anonymous student". */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+
+import { getSessionRoster, RosterPerson } from '../utils/api';
+import { Avatar } from './Avatar';
+
+interface SessionRosterProps {
+  session: { id: string; creatorId: string; attendees: string[]; dropIns: string[]; interested: string[]; inviteCode?: string };
+  currentUserId?: string;
+}
+
+const ROLE_LABELS: Record<RosterPerson['role'], string> = {
+  host: 'Host',
+  attending: 'Attending',
+  dropIn: 'Dropped in',
+  interested: 'Might come',
+};
+
+export const SessionRoster: React.FC<SessionRosterProps> = ({ session, currentUserId }) => {
+  const [people, setPeople] = useState<RosterPerson[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  // Refetch when someone joins, leaves, drops in or marks "might come"
+  const rosterKey = [session.attendees, session.dropIns, session.interested].map(list => list.join(',')).join('|');
+  useEffect(() => {
+    getSessionRoster(session.id, session.inviteCode)
+      .then(({ people }) => {
+        setPeople(people);
+        setFailed(false);
+      })
+      .catch(error => {
+        console.error('Error loading roster:', error);
+        setFailed(true);
+      })
+      .finally(() => setLoading(false));
+  }, [session.id, session.inviteCode, rosterKey]);
+
+  if (loading) {
+    return <ActivityIndicator color="#3B82F6" style={styles.loading} />;
+  }
+  if (failed) {
+    return <Text style={styles.mutedText}>Could not load who is coming.</Text>;
+  }
+
+  return (
+    <View>
+      {people.map(person => {
+        const isYou = person.uid === currentUserId;
+        return (
+          <View key={`${person.role}-${person.uid}`} style={styles.row}>
+            <Avatar uid={person.uid} name={person.displayName} anonymous={person.anonymous} />
+            <View style={styles.text}>
+              <Text style={styles.name}>{person.displayName}{isYou ? ' (you)' : ''}</Text>
+              <Text style={styles.role}>
+                {ROLE_LABELS[person.role]}
+                {person.courses.length > 0 ? ` · ${person.courses.slice(0, 3).join(', ')}` : ''}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 10,
+  },
+  text: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  role: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,75 @@
+/* Toggle chips for SpotFilters (utils/spotFilters.ts): traits from the
+   detail scores, then amenity tags. Shared by the location picker in
+   CreateSessionModal and the Campus map's study-spot layer. */
+
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+import { AMENITY_TAGS, AmenityTag } from '../utils/locationRatings';
+import { SPOT_TRAIT_OPTIONS, SpotFilters, SpotTrait } from '../utils/spotFilters';
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+export const SpotFilterChips: React.FC<{
+  filters: SpotFilters;
+  onChange: (filters: SpotFilters) => void;
+}> = ({ filters, onChange }) => {
+  const chip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      accessibilityState={{ selected: active }}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+      keyboardShouldPersistTaps="handled"
+    >
+      {SPOT_TRAIT_OPTIONS.map(option =>
+        chip(option.value, option.label, filters.traits.includes(option.value), () =>
+          onChange({ ...filters, traits: toggle<SpotTrait>(filters.traits, option.value) })
+        )
+      )}
+      {AMENITY_TAGS.map(tag =>
+        chip(tag.key, tag.label, filters.amenities.includes(tag.key), () =>
+          onChange({ ...filters, amenities: toggle<AmenityTag>(filters.amenities, tag.key) })
+        )
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    backgroundColor: '#F59E0B',
+    borderColor: '#F59E0B',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4B5563',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+});
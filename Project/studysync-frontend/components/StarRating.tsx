@@ -15,6 +15,10 @@ interface StarRatingProps {
   interactive?: boolean;
   onRatingChange?: (rating: number) => void;
   color?: string;
+  // Interactive only: tapping the selected star again clears the rating (0),
+  // for optional scores like the detail ratings in FeedbackModal
+  clearable?: boolean;
+  label?: string;   // Accessibility label prefix, e.g. "Noise"
 }
 
 export const StarRating: React.FC<StarRatingProps> = ({
@@ -23,10 +27,12 @@ export const StarRating: React.FC<StarRatingProps> = ({
   interactive = false,
   onRatingChange,
   color = '#F59E0B',
+  clearable = false,
+  label = 'Rate',
 }) => {
   const handlePress = (starIndex: number) => {
     if (interactive && onRatingChange) {
-      onRatingChange(starIndex);
+      onRatingChange(clearable && starIndex === rating ? 0 : starIndex);
     }
   };
 
@@ -39,6 +45,7 @@ export const StarRating: React.FC<StarRatingProps> = ({
             key={star}
             onPress={() => handlePress(star)}
             style={styles.star}
+            accessibilityLabel={interactive ? `${label} ${star} star${star > 1 ? 's' : ''}` : undefined}
           >
             <Ionicons
               name={star <= rating ? 'star' : 'star-outline'}
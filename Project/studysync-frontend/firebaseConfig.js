@@ -1,6 +1,6 @@
 import { initializeApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
 import { Platform } from "react-native";
 
 const firebaseConfig = {
@@ -17,10 +17,23 @@ export const FIREBASE_APP = initializeApp(firebaseConfig);
 export const FIREBASE_AUTH = getAuth(FIREBASE_APP);
 export const FIRESTORE_DB = getFirestore(FIREBASE_APP);
 
+// Local emulator mode: set EXPO_PUBLIC_USE_FIREBASE_EMULATORS=true in .env.local.
+// Must run before any other Auth/Firestore call; getFirestore(FIREBASE_APP) elsewhere
+// returns this same instance, so every screen talks to the emulators.
+export const USE_FIREBASE_EMULATORS = process.env.EXPO_PUBLIC_USE_FIREBASE_EMULATORS === "true";
+if (USE_FIREBASE_EMULATORS) {
+  // Android emulators reach the host machine at 10.0.2.2; physical devices need the LAN IP
+  const host =
+    process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST ||
+    (Platform.OS === "android" ? "10.0.2.2" : "localhost");
+  connectAuthEmulator(FIREBASE_AUTH, `http://${host}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(FIRESTORE_DB, host, 8080);
+}
+
 // Web-only Analytics: do not import firebase/analytics at the top level.
 // Guard against SSR so no window access happens on the server.
 export let analytics = null;
-if (Platform.OS === "web" && typeof window !== "undefined") {
+if (Platform.OS === "web" && typeof window !== "undefined" && !USE_FIREBASE_EMULATORS) {
   (async () => {
     try {
       const { getAnalytics, isSupported } = await import("firebase/analytics");
@@ -0,0 +1,82 @@
+/**
+ * Listens for the signed-in user's unread in-app notifications (written by the
+ * backend to the "notifications" collection, e.g. waitlist promotions or
+ * cancellations), shows each one as a local notification and marks it read.
+ * Categories the user switched off in notification settings, and anything
+ * arriving during their quiet hours, are marked read without an alert.
+ * Devices registered for Expo push already got the alert from the backend.
+ */
+
+import { useEffect } from 'react';
+import { User } from 'firebase/auth';
+import {
+  getFirestore,
+  collection,
+  query,
+  where,
+  onSnapshot,
+  doc,
+  updateDoc,
+} from 'firebase/firestore';
+
+import { FIREBASE_APP } from '../firebaseConfig';
+import { presentLocalNotification, cancelSessionReminderBySessionId } from '../notificationService';
+import { getRegisteredPushToken } from '../utils/pushTokens';
+import {
+  loadNotificationPreferences,
+  categoryForType,
+  isWithinQuietHours,
+} from '../utils/notificationPreferences';
+
+export function useNotificationInbox(user: User | null) {
+  useEffect(() => {
+    if (!user) return;
+
+    const db = getFirestore(FIREBASE_APP);
+    const q = query(
+      collection(db, 'notifications'),
+      where('userId', '==', user.uid),
+      where('read', '==', false)
+    );
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      snapshot.docChanges().forEach(async (change) => {
+        if (change.type !== 'added') return;
+
+        const data = change.doc.data();
+        try {
+          // Mark read first so a second listener (e.g. after re-login) does not repeat it
+          await updateDoc(doc(db, 'notifications', change.doc.id), { read: true });
+          // A cancelled session's reminder should never fire (a series lists every occurrence)
+          if (data.type === 'session_cancelled') {
+            const sessionIds: string[] = data.sessionIds ?? (data.sessionId ? [data.sessionId] : []);
+            for (const sessionId of sessionIds) {
+              await cancelSessionReminderBySessionId(sessionId);
+            }
+          }
+
+          if (await getRegisteredPushToken()) return;
+
+          const preferences = await loadNotificationPreferences();
+          const category = categoryForType(data.type);
+          if (category && !preferences.categories[category]) return;
+          if (isWithinQuietHours(new Date(), preferences.quietHours)) return;
+
+          await presentLocalNotification(data.title, data.body, {
+            type: data.type,
+            sessionId: data.sessionId,
+          });
+        } catch (error) {
+          console.error('Error delivering notification:', error);
+        }
+      });
+    }, (e) => {
+      // permission-denied is expected while logging out
+      if (e.code !== 'permission-denied') {
+        console.error('Notification inbox error:', e);
+      }
+    });
+
+    return unsubscribe;
+  }, [user]);
+}
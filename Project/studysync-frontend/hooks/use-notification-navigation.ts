@@ -0,0 +1,26 @@
+/**
+ * Opens the session detail screen when the user taps a reminder, a local
+ * inbox notification or a backend push; all of them carry `data.sessionId`.
+ * Also handles the tap that launched the app from a closed state.
+ */
+
+import { useEffect } from 'react';
+import { User } from 'firebase/auth';
+import { useRouter } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+
+export function useNotificationNavigation(user: User | null) {
+  const router = useRouter();
+  const lastResponse = Notifications.useLastNotificationResponse();
+
+  useEffect(() => {
+    // Wait for sign-in; the auth redirect would otherwise replace the screen
+    if (!user || !lastResponse) return;
+
+    const sessionId = lastResponse.notification.request.content.data?.sessionId;
+    if (typeof sessionId === 'string' && sessionId) {
+      router.push({ pathname: '/session/[id]', params: { id: sessionId } });
+    }
+    Notifications.clearLastNotificationResponse();
+  }, [user, lastResponse, router]);
+}
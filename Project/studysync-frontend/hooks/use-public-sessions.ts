@@ -0,0 +1,63 @@
+/**
+ * Live list of public sessions for the signed-in user, shared by the Sessions
+ * list and the Campus map. Unlisted and invite-only sessions are reached
+ * through invite links instead, so they are not part of this query.
+ */
+
+import { useState, useEffect } from 'react';
+import { User } from 'firebase/auth';
+import { getFirestore, collection, query, where, onSnapshot, setLogLevel } from 'firebase/firestore';
+
+import { FIREBASE_APP } from '../firebaseConfig';
+import { StudySession, sessionFromSnapshot } from '../utils/sessions';
+
+export function usePublicSessions(user: User | null) {
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Early return if no user - don't set up any listeners
+    if (!user) {
+      setLoading(false);
+      setSessions([]); // Clear sessions when logged out
+      return;
+    }
+
+    // Track unsubscribe function for cleanup
+    let unsubscribe: (() => void) | undefined;
+
+    // Set up Firestore listener
+    try {
+      const db = getFirestore(FIREBASE_APP);
+      setLogLevel('debug');
+
+      const q = query(collection(db, 'sessions'), where('visibility', '==', 'public'));
+
+      unsubscribe = onSnapshot(q, (snapshot) => {
+        setSessions(snapshot.docs.map(doc => sessionFromSnapshot(doc.id, doc.data())));
+        setLoading(false);
+      }, (e) => {
+        // permission-denied is expected when the user logs out
+        if (e.code !== 'permission-denied') {
+          console.error("Firestore Error:", e);
+          setError('Failed to load study sessions.');
+        }
+        setLoading(false);
+      });
+    } catch (e) {
+      console.error("Firebase Connection Error:", e);
+      setError('Failed to connect to Firebase.');
+      setLoading(false);
+    }
+
+    // Unsubscribe when the user changes or the screen unmounts
+    return () => {
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [user]);
+
+  return { sessions, loading, error };
+}
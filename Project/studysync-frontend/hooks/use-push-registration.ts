@@ -0,0 +1,17 @@
+/**
+ * Registers this device for Expo push notifications once the user is signed in
+ * and has granted notification permission, so the backend can reach them while
+ * the app is closed. Without a token the app falls back to the in-app inbox.
+ */
+
+import { useEffect } from 'react';
+import { User } from 'firebase/auth';
+
+import { registerPushToken } from '../utils/pushTokens';
+
+export function usePushRegistration(user: User | null) {
+  useEffect(() => {
+    if (!user) return;
+    registerPushToken(user.uid);
+  }, [user]);
+}
@@ -0,0 +1,62 @@
+/**
+ * Keeps local session reminders in sync with the sessions the signed-in user
+ * attends. Runs on launch and on every change to those sessions, so reminders
+ * follow joins (including waitlist promotions), leaves, cancellations, time
+ * changes and deleted sessions without each screen having to remember.
+ * Saving new notification preferences reschedules everything with the new
+ * lead times and quiet hours.
+ */
+
+import { useEffect } from 'react';
+import { User } from 'firebase/auth';
+import { getFirestore, collection, query, where, onSnapshot } from 'firebase/firestore';
+
+import { FIREBASE_APP } from '../firebaseConfig';
+import { syncSessionReminders } from '../notificationService';
+import { subscribeToNotificationPreferences } from '../utils/notificationPreferences';
+
+interface ReminderSession {
+  id: string;
+  startTime: Date;
+  course: string;
+  topic: string;
+  locationName: string;
+}
+
+export function useSessionReminders(user: User | null) {
+  useEffect(() => {
+    if (!user) return;
+
+    const db = getFirestore(FIREBASE_APP);
+    const q = query(collection(db, 'sessions'), where('attendees', 'array-contains', user.uid));
+    let latest: ReminderSession[] = [];
+
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const now = Date.now();
+      latest = snapshot.docs
+        .map(d => ({ id: d.id, data: d.data() }))
+        .filter(({ data }) => data.status !== 'cancelled' && data.startTime)
+        .map(({ id, data }) => ({
+          id,
+          startTime: data.startTime.toDate() as Date,
+          course: data.course,
+          topic: data.topic,
+          locationName: data.locationName,
+        }))
+        .filter(s => s.startTime.getTime() > now);
+      syncSessionReminders(latest);
+    }, (e) => {
+      // permission-denied is expected while logging out
+      if (e.code !== 'permission-denied') {
+        console.error('Session reminder sync error:', e);
+      }
+    });
+
+    const unsubscribePreferences = subscribeToNotificationPreferences(() => syncSessionReminders(latest));
+
+    return () => {
+      unsubscribe();
+      unsubscribePreferences();
+    };
+  }, [user]);
+}
@@ -1,6 +1,22 @@
 // Place at the top of your file
 import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  loadNotificationPreferences,
+  adjustForQuietHours,
+  formatLeadTime,
+} from './utils/notificationPreferences';
+
+// Show notifications while the app is open too; pushes from the backend would
+// otherwise be silent for anyone currently using the app
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
 
 const PERMISSION_KEY = '@notification_permission_asked';
 const NOTIFICATION_MAPPING_KEY = '@notification_session_mapping';
@@ -26,32 +42,61 @@ async function markPermissionAsked() {
 }
 
 // Helper functions for notification-session mapping
-async function saveNotificationMapping(sessionId, notificationId) {
+// Each entry is { notificationIds, fingerprint }: one notification per lead time,
+// and a fingerprint of what they were built from so changes trigger a reschedule.
+// Older installs stored a bare ID or { notificationId, startTime }; readMapping upgrades those.
+async function readMapping() {
+  const mappingJson = await AsyncStorage.getItem(NOTIFICATION_MAPPING_KEY);
+  const mapping = mappingJson ? JSON.parse(mappingJson) : {};
+  Object.keys(mapping).forEach((sessionId) => {
+    const entry = mapping[sessionId];
+    if (typeof entry === 'string') {
+      mapping[sessionId] = { notificationIds: [entry], fingerprint: null };
+    } else if (!Array.isArray(entry.notificationIds)) {
+      mapping[sessionId] = { notificationIds: [entry.notificationId], fingerprint: null };
+    }
+  });
+  return mapping;
+}
+
+// Join, leave and the launch reconcile can overlap; run mapping
+// read-modify-writes one at a time so none of them loses an entry
+let mappingQueue = Promise.resolve();
+function withMappingLock(task) {
+  const run = mappingQueue.then(task, task);
+  mappingQueue = run.catch(() => {});
+  return run;
+}
+
+async function saveNotificationMapping(sessionId, notificationIds, fingerprint) {
   try {
-    const mappingJson = await AsyncStorage.getItem(NOTIFICATION_MAPPING_KEY);
-    const mapping = mappingJson ? JSON.parse(mappingJson) : {};
-    mapping[sessionId] = notificationId;
+    const mapping = await readMapping();
+    mapping[sessionId] = { notificationIds, fingerprint };
     await AsyncStorage.setItem(NOTIFICATION_MAPPING_KEY, JSON.stringify(mapping));
   } catch (error) {
     console.error('Error saving notification mapping:', error);
   }
 }
 
-async function getNotificationIdBySessionId(sessionId) {
+async function getNotificationIdsBySessionId(sessionId) {
   try {
-    const mappingJson = await AsyncStorage.getItem(NOTIFICATION_MAPPING_KEY);
-    const mapping = mappingJson ? JSON.parse(mappingJson) : {};
-    return mapping[sessionId] || null;
+    const mapping = await readMapping();
+    return mapping[sessionId]?.notificationIds || [];
   } catch (error) {
-    console.error('Error getting notification ID:', error);
-    return null;
+    console.error('Error getting notification IDs:', error);
+    return [];
+  }
+}
+
+async function cancelNotifications(notificationIds) {
+  for (const notificationId of notificationIds) {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
   }
 }
 
 async function removeNotificationMapping(sessionId) {
   try {
-    const mappingJson = await AsyncStorage.getItem(NOTIFICATION_MAPPING_KEY);
-    const mapping = mappingJson ? JSON.parse(mappingJson) : {};
+    const mapping = await readMapping();
     delete mapping[sessionId];
     await AsyncStorage.setItem(NOTIFICATION_MAPPING_KEY, JSON.stringify(mapping));
   } catch (error) {
@@ -88,81 +133,199 @@ async function getNotificationPermission() {
   return false;
 }
 
+// Everything a session's reminders depend on; a change to any of it means rescheduling
+function reminderFingerprint(session, preferences) {
+  return JSON.stringify({
+    startTime: new Date(session.startTime).toISOString(),
+    course: session.course ?? null,
+    topic: session.topic ?? null,
+    locationName: session.locationName ?? null,
+    enabled: preferences.categories.reminders,
+    leadTimes: preferences.leadTimes,
+    quietHours: preferences.quietHours,
+  });
+}
+
+// Schedule the OS notifications only (one per lead time); callers keep the mapping up to date.
+// Lead times that have already passed are skipped. Returns the scheduled IDs.
+async function scheduleReminderNotifications(session, preferences) {
+  if (!preferences.categories.reminders) return [];
+
+  // Convert startTime to Date if needed
+  const startTime = new Date(session.startTime); // Handles both string or Date
+  const { course, topic, locationName } = session;
+  const triggerTimes = new Set();
+  const notificationIds = [];
+
+  for (const leadMinutes of [...preferences.leadTimes].sort((a, b) => b - a)) {
+    const triggerDate = adjustForQuietHours(
+      new Date(startTime.getTime() - leadMinutes * 60 * 1000),
+      preferences.quietHours
+    );
+    // Two lead times can collapse onto the same moment once quiet hours move them
+    if (triggerDate.getTime() <= Date.now() || triggerTimes.has(triggerDate.getTime())) continue;
+    triggerTimes.add(triggerDate.getTime());
+
+    const when = formatLeadTime(leadMinutes);
+    notificationIds.push(await Notifications.scheduleNotificationAsync({
+      content: {
+        title: course ? `${course} starts in ${when}` : 'Session Reminder',
+        body: topic
+          ? [topic, locationName].filter(Boolean).join(' · ')
+          : `Your session starts in ${when}!`,
+        sound: true,
+        data: { sessionId: session.id }, // Store session ID in notification data
+      },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: triggerDate },
+    }));
+  }
+  return notificationIds;
+}
+
 // Main function: Call this when scheduling a session
-// Returns the notification ID so you can cancel it later
-async function scheduleSessionReminder(sessionStartTime, sessionId) {
+// `details` ({ course, topic, locationName }) fills in the reminder text.
+// Returns the notification IDs so you can cancel them later
+async function scheduleSessionReminder(sessionStartTime, sessionId, details = {}) {
   // Ensure permission
   const hasPermission = await getNotificationPermission();
-  if (!hasPermission) return null;
-
-  // Convert sessionStartTime to Date if needed
-  const triggerDate = new Date(sessionStartTime); // Handles both string or Date
-  triggerDate.setMinutes(triggerDate.getMinutes() - 30); // 30 minutes before session
-
-  // Schedule the notification
-  const notificationId = await Notifications.scheduleNotificationAsync({
-    content: {
-      title: 'Session Reminder',
-      body: 'Your session starts in 30 minutes!',
-      sound: true,
-      data: { sessionId }, // Store session ID in notification data
-    },
-    trigger: triggerDate,
+  if (!hasPermission) return [];
+
+  return withMappingLock(async () => {
+    // Replace any earlier reminders for this session instead of stacking more
+    await cancelNotifications(await getNotificationIdsBySessionId(sessionId));
+    await removeNotificationMapping(sessionId);
+
+    const session = { ...details, id: sessionId, startTime: sessionStartTime };
+    const preferences = await loadNotificationPreferences();
+    const notificationIds = await scheduleReminderNotifications(session, preferences);
+    if (notificationIds.length === 0) return [];
+
+    // Save the mapping between sessionId and its notification IDs
+    await saveNotificationMapping(sessionId, notificationIds, reminderFingerprint(session, preferences));
+
+    console.log(`Scheduled ${notificationIds.length} notification(s) for session ${sessionId}`);
+    return notificationIds;
   });
+}
+
+/**
+ * Bring scheduled reminders in line with the sessions the user is attending.
+ * `sessions` is the full list of { id, startTime, course, topic, locationName }
+ * the user should be reminded about (joined, not cancelled). Reminders for
+ * anything else are cancelled, and a session whose time or details changed,
+ * or any session after the reminder preferences changed, is rescheduled.
+ */
+async function syncSessionReminders(sessions) {
+  const { status } = await Notifications.getPermissionsAsync();
+
+  return withMappingLock(async () => {
+    try {
+      const mapping = await readMapping();
+      const preferences = await loadNotificationPreferences();
+      const wanted = new Map(sessions.map((s) => [s.id, s]));
+
+      // Left, cancelled or deleted sessions
+      for (const sessionId of Object.keys(mapping)) {
+        if (wanted.has(sessionId)) continue;
+        await cancelNotifications(mapping[sessionId].notificationIds);
+        delete mapping[sessionId];
+      }
 
-  // Save the mapping between sessionId and notificationId
-  await saveNotificationMapping(sessionId, notificationId);
+      for (const [sessionId, session] of wanted) {
+        const entry = mapping[sessionId];
+        const fingerprint = reminderFingerprint(session, preferences);
+        if (entry && entry.fingerprint === fingerprint) continue;
 
-  console.log(`Scheduled notification ${notificationId} for session ${sessionId}`);
-  return notificationId;
+        if (entry) {
+          await cancelNotifications(entry.notificationIds);
+          delete mapping[sessionId];
+        }
+        // Never prompt from a background sync; joining asks for permission
+        if (status !== 'granted') continue;
+
+        const notificationIds = await scheduleReminderNotifications(session, preferences);
+        if (notificationIds.length > 0) {
+          mapping[sessionId] = { notificationIds, fingerprint };
+        }
+      }
+
+      await AsyncStorage.setItem(NOTIFICATION_MAPPING_KEY, JSON.stringify(mapping));
+    } catch (error) {
+      console.error('Error syncing session reminders:', error);
+    }
+  });
+}
+
+// Show a notification right away (used for in-app messages like waitlist promotions)
+async function presentLocalNotification(title, body, data = {}) {
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted') return null;
+
+  return Notifications.scheduleNotificationAsync({
+    content: { title, body, sound: true, data },
+    trigger: null, // null trigger = deliver immediately
+  });
 }
 
 // Cancel a specific notification by its ID
 async function cancelSessionReminder(notificationId, sessionId = null) {
   if (!notificationId) return;
 
-  try {
-    await Notifications.cancelScheduledNotificationAsync(notificationId);
-    console.log(`Cancelled notification ${notificationId}`);
+  return withMappingLock(async () => {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(notificationId);
+      console.log(`Cancelled notification ${notificationId}`);
 
-    // Remove from mapping if sessionId provided
-    if (sessionId) {
-      await removeNotificationMapping(sessionId);
+      // Remove from mapping if sessionId provided (the session's other lead times stay scheduled)
+      if (sessionId) {
+        const remaining = (await getNotificationIdsBySessionId(sessionId)).filter((id) => id !== notificationId);
+        if (remaining.length > 0) {
+          const mapping = await readMapping();
+          mapping[sessionId].notificationIds = remaining;
+          await AsyncStorage.setItem(NOTIFICATION_MAPPING_KEY, JSON.stringify(mapping));
+        } else {
+          await removeNotificationMapping(sessionId);
+        }
+      }
+    } catch (error) {
+      console.error('Error cancelling notification:', error);
     }
-  } catch (error) {
-    console.error('Error cancelling notification:', error);
-  }
+  });
 }
 
 // Cancel notification by session ID
 async function cancelSessionReminderBySessionId(sessionId) {
-  try {
-    // Get the notification ID from our stored mapping
-    const notificationId = await getNotificationIdBySessionId(sessionId);
+  return withMappingLock(async () => {
+    try {
+      // Get the notification IDs from our stored mapping
+      const notificationIds = await getNotificationIdsBySessionId(sessionId);
 
-    if (!notificationId) {
-      console.log(`No notification found for session ${sessionId}`);
-      return;
-    }
+      if (notificationIds.length === 0) {
+        console.log(`No notification found for session ${sessionId}`);
+        return;
+      }
 
-    await Notifications.cancelScheduledNotificationAsync(notificationId);
-    await removeNotificationMapping(sessionId);
-    console.log(`Cancelled notification for session ${sessionId}`);
-  } catch (error) {
-    console.error('Error cancelling notification by session ID:', error);
-  }
+      await cancelNotifications(notificationIds);
+      await removeNotificationMapping(sessionId);
+      console.log(`Cancelled notification for session ${sessionId}`);
+    } catch (error) {
+      console.error('Error cancelling notification by session ID:', error);
+    }
+  });
 }
 
 // Cancel all scheduled notifications
 async function cancelAllReminders() {
-  try {
-    await Notifications.cancelAllScheduledNotificationsAsync();
-    // Clear all mappings
-    await AsyncStorage.setItem(NOTIFICATION_MAPPING_KEY, JSON.stringify({}));
-    console.log('Cancelled all notifications');
-  } catch (error) {
-    console.error('Error cancelling all notifications:', error);
-  }
+  return withMappingLock(async () => {
+    try {
+      await Notifications.cancelAllScheduledNotificationsAsync();
+      // Clear all mappings
+      await AsyncStorage.setItem(NOTIFICATION_MAPPING_KEY, JSON.stringify({}));
+      console.log('Cancelled all notifications');
+    } catch (error) {
+      console.error('Error cancelling all notifications:', error);
+    }
+  });
 }
 
 // Get all scheduled notifications
@@ -182,22 +345,27 @@ async function getAllScheduledNotifications() {
 // await getNotificationPermission();
 //
 // 2. Schedule a session reminder
-// const session = { id: '123', startTime: '2025-11-05T18:00:00' };
-// const notificationId = await scheduleSessionReminder(session.startTime, session.id);
-// // Store notificationId with your session data if needed
+// const session = { id: '123', startTime: '2025-11-05T18:00:00', course: 'CS 124', topic: 'MP1', locationName: 'Grainger' };
+// const notificationIds = await scheduleSessionReminder(session.startTime, session.id, session);
+// // Lead times and quiet hours come from utils/notificationPreferences.ts
 //
 // 3. Cancel a specific reminder
-// await cancelSessionReminder(notificationId);
+// await cancelSessionReminder(notificationIds[0]);
 // // OR
 // await cancelSessionReminderBySessionId(session.id);
 //
-// 4. Get all scheduled notifications
+// 4. Keep reminders matched to the sessions the user attends (see hooks/use-session-reminders.ts)
+// await syncSessionReminders([session]);
+//
+// 5. Get all scheduled notifications
 // const scheduled = await getAllScheduledNotifications();
 // console.log('Scheduled notifications:', scheduled);
 
 export {
   getNotificationPermission,
   scheduleSessionReminder,
+  syncSessionReminders,
+  presentLocalNotification,
   cancelSessionReminder,
   cancelSessionReminderBySessionId,
   cancelAllReminders,
@@ -0,0 +1,227 @@
+/* Client for the StudySync Express backend (Project/studysync-backend).
+   Every request carries the signed-in user's Firebase ID token so the
+   server can verify who is calling. Set EXPO_PUBLIC_API_URL to the
+   backend's address (e.g. http://192.168.1.20:3000 when testing on a phone). */
+
+import { FIREBASE_AUTH } from '../firebaseConfig';
+import { RecurrenceRule, SeriesScope } from './recurrence';
+import { SessionVisibility } from './sessions';
+
+export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:3000';
+
+interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+}
+
+// Send an authenticated JSON request; throws with the server's error message on failure
+export const apiRequest = async <T = unknown>(path: string, options: ApiRequestOptions = {}): Promise<T> => {
+  const currentUser = FIREBASE_AUTH.currentUser;
+  if (!currentUser) {
+    throw new Error('You must be logged in');
+  }
+
+  const idToken = await currentUser.getIdToken();
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: options.method ?? 'GET',
+    headers: {
+      Authorization: `Bearer ${idToken}`,
+      ...(options.body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  // 204 No Content has no body to parse
+  const data = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error ?? `Request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+interface AttendanceResponse {
+  attendees: string[];
+  isFull: boolean;
+}
+
+// Invite-only sessions need the code from their invite link
+export const joinSession = (sessionId: string, inviteCode?: string) =>
+  apiRequest<AttendanceResponse>(
+    `/sessions/${encodeURIComponent(sessionId)}/join`,
+    { method: 'POST', body: inviteCode ? { inviteCode } : undefined }
+  );
+
+export const leaveSession = (sessionId: string) =>
+  apiRequest<AttendanceResponse>(`/sessions/${encodeURIComponent(sessionId)}/leave`, { method: 'POST' });
+
+interface WaitlistResponse {
+  waitlist: string[];
+  position?: number;
+}
+
+export const joinWaitlist = (sessionId: string, inviteCode?: string) =>
+  apiRequest<WaitlistResponse>(
+    `/sessions/${encodeURIComponent(sessionId)}/waitlist`,
+    { method: 'POST', body: inviteCode ? { inviteCode } : undefined }
+  );
+
+export const leaveWaitlist = (sessionId: string) =>
+  apiRequest<WaitlistResponse>(`/sessions/${encodeURIComponent(sessionId)}/waitlist`, { method: 'DELETE' });
+
+// Open sessions: "I might come", which takes no spot
+export const setInterest = (sessionId: string, interested: boolean, inviteCode?: string) =>
+  apiRequest<{ interested: string[] }>(
+    `/sessions/${encodeURIComponent(sessionId)}/interest`,
+    { method: interested ? 'POST' : 'DELETE', body: interested && inviteCode ? { inviteCode } : undefined }
+  );
+
+// Preferred sessions: check in without an RSVP, from 15 minutes before the start
+export const setDropIn = (sessionId: string, checkedIn: boolean, inviteCode?: string) =>
+  apiRequest<{ dropIns: string[] }>(
+    `/sessions/${encodeURIComponent(sessionId)}/drop-in`,
+    { method: checkedIn ? 'POST' : 'DELETE', body: checkedIn && inviteCode ? { inviteCode } : undefined }
+  );
+
+// "required" sessions: ask the host to approve the caller, with an optional note
+export const requestToJoin = (sessionId: string, note?: string, inviteCode?: string) =>
+  apiRequest<{ status: 'pending' }>(
+    `/sessions/${encodeURIComponent(sessionId)}/requests`,
+    { method: 'POST', body: { note, inviteCode } }
+  );
+
+export const withdrawJoinRequest = (sessionId: string) =>
+  apiRequest<{ pendingRequests: string[] }>(`/sessions/${encodeURIComponent(sessionId)}/requests`, { method: 'DELETE' });
+
+export interface JoinRequest {
+  userId: string;
+  userName: string;
+  note: string | null;
+  status: 'pending' | 'approved' | 'declined';
+  createdAt: string | null;
+}
+
+// Host only: pending requests, oldest first
+export const getJoinRequests = (sessionId: string) =>
+  apiRequest<{ requests: JoinRequest[] }>(`/sessions/${encodeURIComponent(sessionId)}/requests`);
+
+// Roster entry from users/{uid}; anonymous people show as "Anonymous student"
+export interface RosterPerson {
+  uid: string;
+  role: 'host' | 'attending' | 'dropIn' | 'interested';
+  displayName: string;
+  courses: string[];
+  anonymous: boolean;
+}
+
+// Invite-link visitors who are not members yet pass the code
+export const getSessionRoster = (sessionId: string, inviteCode?: string) =>
+  apiRequest<{ people: RosterPerson[]; waitlistCount: number; pendingCount: number }>(
+    `/sessions/${encodeURIComponent(sessionId)}/roster${inviteCode ? `?code=${encodeURIComponent(inviteCode)}` : ''}`
+  );
+
+// Host only: approving fails while the session is full
+export const answerJoinRequest = (sessionId: string, userId: string, approve: boolean) =>
+  apiRequest<{ attendees: string[]; pendingRequests: string[]; isFull: boolean }>(
+    `/sessions/${encodeURIComponent(sessionId)}/requests/${encodeURIComponent(userId)}/${approve ? 'approve' : 'decline'}`,
+    { method: 'POST' }
+  );
+
+interface CalendarFeedResponse {
+  url: string;
+  webcalUrl: string;
+}
+
+// Personal iCalendar subscription link; rotate=true invalidates the previous one
+export const getCalendarFeed = (rotate = false) =>
+  apiRequest<CalendarFeedResponse>('/calendar/token', { method: 'POST', body: { rotate } });
+
+// Fields a host can change; null clears an optional field. Dates are ISO strings.
+export interface SessionUpdate {
+  course?: string;
+  topic?: string;
+  locationName?: string;
+  locationCoords?: { latitude: number; longitude: number };
+  locationDetails?: string | null;
+  startTime?: string;
+  endTime?: string | null;
+  capacity?: number | null;
+  signupPolicy?: 'required' | 'preferred' | 'open';
+  visibility?: SessionVisibility;
+}
+
+// Host edit; the server validates, promotes from the waitlist and notifies attendees.
+// scope "future" also edits every later occurrence of a recurring session.
+export const updateSession = (sessionId: string, changes: SessionUpdate, scope: SeriesScope = 'this') =>
+  apiRequest<{ session: unknown; updatedCount: number }>(
+    `/sessions/${encodeURIComponent(sessionId)}`,
+    { method: 'PATCH', body: { ...changes, scope } }
+  );
+
+export interface NewSession {
+  creatorName: string;
+  course: string;
+  topic: string;
+  locationName: string;
+  locationCoords: { latitude: number; longitude: number };
+  locationDetails?: string;
+  startTime: string;
+  endTime: string | null;
+  signupPolicy: 'required' | 'preferred' | 'open';
+  capacity?: number;
+  recurrence?: RecurrenceRule;
+  visibility: SessionVisibility;
+}
+
+interface CreatedSession {
+  id: string;
+  startTime: string;
+  course: string;
+  topic: string;
+  locationName: string;
+  visibility: SessionVisibility;
+  inviteCode?: string | null;
+}
+
+// With `recurrence` the server creates one session per occurrence, linked by seriesId
+export const createSession = (session: NewSession) =>
+  apiRequest<{ session: CreatedSession; seriesId?: string; sessions?: CreatedSession[] }>(
+    '/sessions',
+    { method: 'POST', body: session }
+  );
+
+// Soft cancel: the session stays in attendees' history marked "Cancelled"
+export const cancelSession = (sessionId: string, reason: string, scope: SeriesScope = 'this') =>
+  apiRequest<{ status: 'cancelled'; cancelReason: string; cancelledIds: string[] }>(
+    `/sessions/${encodeURIComponent(sessionId)}/cancel`,
+    { method: 'POST', body: { reason, scope } }
+  );
+
+// A session as the backend returns it (dates are ISO strings)
+export interface InviteSession {
+  id: string;
+  creatorName: string;
+  course: string;
+  topic: string;
+  locationName: string;
+  locationDetails: string | null;
+  startTime: string;
+  endTime: string | null;
+  capacity: number | null;
+  attendees: string[];
+  waitlist: string[];
+  pendingRequests: string[];
+  interested: string[];
+  dropIns: string[];
+  isFull: boolean;
+  signupPolicy: 'required' | 'preferred' | 'open';
+  visibility: SessionVisibility;
+  inviteCode: string | null;
+}
+
+// Upcoming sessions behind an invite link (several for a recurring session)
+export const getInvite = (code: string) =>
+  apiRequest<{ sessions: InviteSession[] }>(`/invites/${encodeURIComponent(code)}`);
+
+// Host only: replace the invite code; links with the old code stop working
+export const rotateInviteCode = (sessionId: string) =>
+  apiRequest<{ inviteCode: string }>(`/sessions/${encodeURIComponent(sessionId)}/invite`, { method: 'POST' });
@@ -0,0 +1,155 @@
+/* Calendar helpers shared by the session list and the session detail screen:
+   a Google Calendar link that opens a prefilled event, and a .ics export for
+   any other calendar app. */
+
+import { Platform } from 'react-native';
+import { File as FsFile, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { StudySession } from './sessions';
+
+/* ===== AI-COPILOT SNIPPET (BEGIN) =====
+Source: GitHub Copilot via chat (Elias Ghanayem) on 2025-11-05
+Purpose: Build a Google Calendar TEMPLATE URL that opens a prefilled event for user review before saving.
+Why AI was used: To compose a standards-compliant URL quickly with clear handling of edge cases and include thorough comments so you can explain it.
+Key implementation details (teach-back):
+- Google Calendar accepts dates as UTC in compact form: YYYYMMDDTHHMMSSZ.
+- We include host and optional location details in "details".
+- If no end is provided, we set end == start (zero-duration) and add an explicit note in details ("No end time specified.").
+===== AI-COPILOT SNIPPET (END) ===== */
+
+/** Convert a Date to Google Calendar's compact UTC format: 20251020T182000Z */
+const toGCalDate = (d: Date) =>
+  d
+    .toISOString()              // e.g., 2025-10-20T18:20:00.000Z
+    .replace(/[-:]/g, '')       // -> 20251020T182000.000Z
+    .replace(/\.\d{3}Z$/, 'Z'); // -> 20251020T182000Z
+
+/** Event fields shared by the Google Calendar link and the .ics export. */
+export interface CalendarEventInput {
+  title: string;
+  description?: string;
+  location?: string;
+  locationDetails?: string;
+  start: Date;
+  end?: Date | null;
+}
+
+/** Build a Google Calendar “TEMPLATE” URL with title/details/location and start/end. */
+export const buildGoogleCalUrl = (s: CalendarEventInput) => {
+  const hasEnd = !!s.end;
+  const startUtc = toGCalDate(s.start);
+  const endUtc = toGCalDate(s.end ?? s.start); // zero-duration if no end
+
+  const lines: string[] = [];
+  if (s.description) lines.push(s.description);
+  if (s.locationDetails) lines.push(`Location details: ${s.locationDetails}`);
+  if (!hasEnd) lines.push('Note: This event has no specified end time.');
+
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: s.title,
+    details: lines.join('\n'),    // multi-line description (URL-encoded)
+    location: s.location ?? '',
+    dates: `${startUtc}/${endUtc}` // required start/end pair
+  });
+
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+};
+
+/* ===== .ICS EXPORT =====
+   Same inputs as buildGoogleCalUrl, written as an RFC 5545 file so Apple Calendar,
+   Outlook and other apps can import it. DTSTART/DTEND reuse toGCalDate (same
+   compact UTC format). With no end time we omit DTEND, which calendars treat
+   as a zero-duration event, and add the same note as the Google link. */
+
+// Escape commas, semicolons, backslashes and newlines in TEXT values
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// UTF-8 byte length without Buffer (not available in React Native)
+const utf8Length = (value: string) => encodeURIComponent(value).replace(/%[0-9A-F]{2}/gi, 'x').length;
+
+// Fold lines longer than 75 octets; continuation lines start with a space
+const foldIcsLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (utf8Length(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/** Build a single-event .ics document; `uid` should stay stable for the same session. */
+export const buildIcsFile = (s: CalendarEventInput & { uid: string }) => {
+  const lines: string[] = [];
+  if (s.description) lines.push(s.description);
+  if (s.locationDetails) lines.push(`Location details: ${s.locationDetails}`);
+  if (!s.end) lines.push('Note: This event has no specified end time.');
+
+  const event = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//StudySync//Study Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${s.uid}`,
+    `DTSTAMP:${toGCalDate(new Date())}`,
+    `DTSTART:${toGCalDate(s.start)}`,
+    ...(s.end ? [`DTEND:${toGCalDate(s.end)}`] : []),
+    `SUMMARY:${escapeIcsText(s.title)}`,
+    ...(lines.length > 0 ? [`DESCRIPTION:${escapeIcsText(lines.join('\n'))}`] : []),
+    ...(s.location ? [`LOCATION:${escapeIcsText(s.location)}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return event.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+/** Write the .ics to the cache directory and open the share sheet (download on web). */
+export const shareIcsFile = async (fileName: string, ics: string) => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const file = new FsFile(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(ics);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'Add to calendar',
+  });
+};
+
+// Event fields for a study session, used by both calendar actions
+export const sessionCalendarEvent = (session: StudySession): CalendarEventInput => ({
+  title: `${session.course} — ${session.topic}`,
+  description: `Study session hosted by ${session.creatorName}`,
+  location: session.locationName,
+  locationDetails: session.locationDetails ?? undefined,
+  start: session.startTime,
+  end: session.endTime ?? null,
+});
+
+// Share (or download, on web) a .ics file for one session; the UID stays stable per session
+export const exportSessionIcs = async (session: StudySession) => {
+  const ics = buildIcsFile({ ...sessionCalendarEvent(session), uid: `${session.id}@studysync` });
+  const fileName = `${session.course}-${session.topic}`.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+  await shareIcsFile(`${fileName || 'study-session'}.ics`, ics);
+};
@@ -5,33 +5,85 @@
    Why AI: Utility functions for location rating operations and ID generation.
    Notes: Uses Google Place ID when available, falls back to coordinate hash. */
 
-import { getFirestore, doc, getDoc, setDoc, updateDoc, arrayUnion, arrayRemove, collection, query, orderBy, limit, getDocs } from 'firebase/firestore';
+import {
+  getFirestore,
+  doc,
+  getDoc,
+  collection,
+  query,
+  orderBy,
+  limit,
+  startAfter,
+  getDocs,
+  DocumentData,
+  QueryDocumentSnapshot,
+  Timestamp,
+} from 'firebase/firestore';
 import { FIREBASE_APP } from '../firebaseConfig';
+import { apiRequest } from './api';
 
 export interface LocationCoords {
   latitude: number;
   longitude: number;
 }
 
+// Optional 1-5 detail scores on a review. Noise runs from silent (1) to
+// loud (5); for the rest higher is better. Keys match LOCATION_ATTRIBUTES in
+// studysync-backend/lib/locations.js
+export type LocationAttribute = 'noise' | 'outlets' | 'wifi' | 'seating' | 'groupFriendly';
+
+export const LOCATION_ATTRIBUTES: { key: LocationAttribute; label: string; low: string; high: string }[] = [
+  { key: 'noise', label: 'Noise', low: 'Silent', high: 'Loud' },
+  { key: 'outlets', label: 'Outlets', low: 'None', high: 'Plenty' },
+  { key: 'wifi', label: 'Wi-Fi', low: 'Spotty', high: 'Fast' },
+  { key: 'seating', label: 'Seating', low: 'Hard to find', high: 'Plenty' },
+  { key: 'groupFriendly', label: 'Groups', low: 'Solo only', high: 'Great for groups' },
+];
+
+export type AttributeScores = Partial<Record<LocationAttribute, number>>;
+
+export type AmenityTag = 'whiteboards' | 'food' | 'printing' | 'bookableRooms' | 'openLate' | 'naturalLight' | 'accessible';
+
+export const AMENITY_TAGS: { key: AmenityTag; label: string }[] = [
+  { key: 'whiteboards', label: 'Whiteboards' },
+  { key: 'food', label: 'Food nearby' },
+  { key: 'printing', label: 'Printing' },
+  { key: 'bookableRooms', label: 'Bookable rooms' },
+  { key: 'openLate', label: 'Open late' },
+  { key: 'naturalLight', label: 'Natural light' },
+  { key: 'accessible', label: 'Accessible' },
+];
+
+// One person's rating: locationRatings/{locationId}/reviews/{userId}
 export interface UserRating {
   userId: string;
   userName: string;
   rating: number;
   reviewText?: string;
+  attributes: AttributeScores;
+  amenities: AmenityTag[];
   timestamp: Date;
   lastSessionId: string;
 }
 
+// Aggregates only; the reviews themselves are paged with getLocationReviews
 export interface LocationRating {
   locationId: string;
   locationName: string;
   locationCoords: LocationCoords;
   placeId?: string;
-  ratings: UserRating[];
+  ratingCounts: number[];   // index 0 = 1 star ... index 4 = 5 stars
   averageRating: number;
   totalRatings: number;
+  attributeAverages: AttributeScores;                    // only attributes someone scored
+  amenityCounts: Partial<Record<AmenityTag, number>>;    // reviewers who ticked each tag
 }
 
+export const REVIEWS_PAGE_SIZE = 20;
+
+// Rated spots loaded for the Campus map and the location picker, best first
+export const RATED_SPOTS_LIMIT = 100;
+
 // Generate location ID from place ID or coordinates
 export const generateLocationId = (placeId?: string, name?: string, coords?: LocationCoords): string => {
   if (placeId) {
@@ -46,93 +98,85 @@ export const generateLocationId = (placeId?: string, name?: string, coords?: Loc
   throw new Error('Either placeId or name+coords must be provided');
 };
 
-// Get or create location rating document
+// `ratingCounts` is stored as a { 1: n, ..., 5: n } map and
+// `attributeScores` as { noise: { total, count }, ... }
+const locationRatingFromData = (locationId: string, data: DocumentData): LocationRating => {
+  const attributeAverages: AttributeScores = {};
+  LOCATION_ATTRIBUTES.forEach(({ key }) => {
+    const score = data.attributeScores?.[key];
+    if (score?.count > 0) attributeAverages[key] = score.total / score.count;
+  });
+  return {
+    locationId,
+    locationName: data.locationName,
+    locationCoords: data.locationCoords,
+    placeId: data.placeId,
+    ratingCounts: [1, 2, 3, 4, 5].map(star => data.ratingCounts?.[star] || 0),
+    averageRating: data.averageRating || 0,
+    totalRatings: data.totalRatings || 0,
+    attributeAverages,
+    amenityCounts: data.amenityCounts || {},
+  };
+};
+
+// Firestore hands review timestamps back as Timestamps; convert them to Dates
+const reviewFromData = (data: DocumentData): UserRating => ({
+  userId: data.userId,
+  userName: data.userName,
+  rating: data.rating,
+  reviewText: data.reviewText,
+  attributes: data.attributes || {},
+  amenities: data.amenities || [],
+  timestamp: data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(),
+  lastSessionId: data.lastSessionId,
+});
+
+// Pin and badge color for an average rating: green from 4, amber from 3, red below
+export const ratingColor = (averageRating: number): string => {
+  if (averageRating >= 4) return '#10B981';
+  return averageRating >= 3 ? '#F59E0B' : '#EF4444';
+};
+
+// Get a location's rating aggregates
 export const getLocationRating = async (locationId: string): Promise<LocationRating | null> => {
   const db = getFirestore(FIREBASE_APP);
-  const docRef = doc(db, 'locationRatings', locationId);
-  const docSnap = await getDoc(docRef);
-  
-  if (docSnap.exists()) {
-    const data = docSnap.data();
-    return {
-      locationId,
-      locationName: data.locationName,
-      locationCoords: data.locationCoords,
-      placeId: data.placeId,
-      ratings: data.ratings || [],
-      averageRating: data.averageRating || 0,
-      totalRatings: data.totalRatings || 0,
-    };
-  }
-  
-  return null;
+  const docSnap = await getDoc(doc(db, 'locationRatings', locationId));
+  return docSnap.exists() ? locationRatingFromData(locationId, docSnap.data()) : null;
 };
 
-// Add or update user rating for a location
-export const addOrUpdateRating = async (
+// One page of reviews, newest first; pass the previous page's cursor for the next.
+// `cursor` is null once there are no more pages.
+export const getLocationReviews = async (
   locationId: string,
-  locationName: string,
-  locationCoords: LocationCoords,
-  userId: string,
-  userName: string,
-  rating: number,
-  reviewText: string,
-  sessionId: string,
-  placeId?: string
-): Promise<void> => {
+  after: QueryDocumentSnapshot | null = null,
+  pageSize: number = REVIEWS_PAGE_SIZE
+): Promise<{ reviews: UserRating[]; cursor: QueryDocumentSnapshot | null }> => {
   const db = getFirestore(FIREBASE_APP);
-  const docRef = doc(db, 'locationRatings', locationId);
-  const docSnap = await getDoc(docRef);
-
-  const newRating: UserRating = {
-    userId,
-    userName,
-    rating,
-    reviewText,
-    timestamp: new Date(),
-    lastSessionId: sessionId,
+  const reviewsRef = collection(db, 'locationRatings', locationId, 'reviews');
+  const q = after
+    ? query(reviewsRef, orderBy('timestamp', 'desc'), startAfter(after), limit(pageSize))
+    : query(reviewsRef, orderBy('timestamp', 'desc'), limit(pageSize));
+  const snapshot = await getDocs(q);
+  return {
+    reviews: snapshot.docs.map(d => reviewFromData(d.data())),
+    cursor: snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : null,
   };
-
-  if (docSnap.exists()) {
-    // Document exists, update existing rating or add new one
-    const data = docSnap.data();
-    const existingRatings: UserRating[] = data.ratings || [];
-    const userRatingIndex = existingRatings.findIndex(r => r.userId === userId);
-
-    let updatedRatings: UserRating[];
-    if (userRatingIndex >= 0) {
-      // Update existing rating
-      updatedRatings = [...existingRatings];
-      updatedRatings[userRatingIndex] = newRating;
-    } else {
-      // Add new rating
-      updatedRatings = [...existingRatings, newRating];
-    }
-
-    // Recalculate average
-    const totalRatings = updatedRatings.length;
-    const sumRatings = updatedRatings.reduce((sum, r) => sum + r.rating, 0);
-    const averageRating = totalRatings > 0 ? sumRatings / totalRatings : 0;
-
-    await updateDoc(docRef, {
-      ratings: updatedRatings,
-      averageRating: parseFloat(averageRating.toFixed(2)),
-      totalRatings,
-    });
-  } else {
-    // Create new document
-    await setDoc(docRef, {
-      locationId,
-      locationName,
-      locationCoords,
-      placeId: placeId || null,
-      ratings: [newRating],
-      averageRating: rating,
-      totalRatings: 1,
-    });
-  }
 };
 
+// Rate the spot a session was held at, optionally with detail scores and
+// amenity tags. The backend writes the review and updates the aggregates in
+// one transaction (POST /sessions/:id/rating)
+export const addOrUpdateRating = (
+  sessionId: string,
+  rating: number,
+  reviewText: string,
+  details: { attributes?: AttributeScores; amenities?: AmenityTag[] } = {}
+) =>
+  apiRequest<{ locationId: string; averageRating: number; totalRatings: number }>(
+    `/sessions/${encodeURIComponent(sessionId)}/rating`,
+    { method: 'POST', body: { rating, reviewText, ...details } }
+  );
+
 // Get top N rated locations
 export const getTopRatedLocations = async (limitCount: number = 10): Promise<LocationRating[]> => {
   const db = getFirestore(FIREBASE_APP);
@@ -140,18 +184,7 @@ export const getTopRatedLocations = async (limitCount: number = 10): Promise<Loc
   const q = query(ratingsRef, orderBy('averageRating', 'desc'), limit(limitCount));
   
   const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return {
-      locationId: doc.id,
-      locationName: data.locationName,
-      locationCoords: data.locationCoords,
-      placeId: data.placeId,
-      ratings: data.ratings || [],
-      averageRating: data.averageRating || 0,
-      totalRatings: data.totalRatings || 0,
-    };
-  });
+  return snapshot.docs.map(doc => locationRatingFromData(doc.id, doc.data()));
 };
 
 // Check if user has rated a location after a specific session
@@ -160,20 +193,14 @@ export const canUserRateLocation = async (
   userId: string,
   currentSessionId: string
 ): Promise<boolean> => {
-  const locationRating = await getLocationRating(locationId);
-  
-  if (!locationRating) {
-    // No ratings yet, user can rate
-    return true;
-  }
-  
-  const userRating = locationRating.ratings.find(r => r.userId === userId);
-  
-  if (!userRating) {
+  const db = getFirestore(FIREBASE_APP);
+  const reviewSnap = await getDoc(doc(db, 'locationRatings', locationId, 'reviews', userId));
+
+  if (!reviewSnap.exists()) {
     // User hasn't rated yet
     return true;
   }
-  
+
   // User can rate again if this is a different session
-  return userRating.lastSessionId !== currentSessionId;
-};
\ No newline at end of file
+  return reviewSnap.data().lastSessionId !== currentSessionId;
+};
@@ -0,0 +1,51 @@
+/* Grid clustering for session pins on the Campus map. The visible region is
+   split into a CLUSTER_GRID x CLUSTER_GRID grid and sessions in the same cell
+   share one marker. Once zoomed in past MIN_CLUSTER_DELTA only sessions at
+   the exact same spot are grouped, since zooming further cannot split them. */
+
+import { Region } from 'react-native-maps';
+import { LocationCoords, StudySession } from './sessions';
+
+const CLUSTER_GRID = 6;
+export const MIN_CLUSTER_DELTA = 0.003;
+
+export interface SessionCluster {
+  key: string;
+  coordinate: LocationCoords;
+  sessions: StudySession[];
+}
+
+// Sessions created while Places was unavailable have no real coordinates
+export const hasMapCoords = (session: StudySession) =>
+  session.locationCoords.latitude !== 0 || session.locationCoords.longitude !== 0;
+
+export const clusterSessions = (sessions: StudySession[], region: Region): SessionCluster[] => {
+  const cellLat = region.latitudeDelta / CLUSTER_GRID;
+  const cellLng = region.longitudeDelta / CLUSTER_GRID;
+  const exactOnly = region.latitudeDelta < MIN_CLUSTER_DELTA;
+
+  const cells = new Map<string, StudySession[]>();
+  sessions.filter(hasMapCoords).forEach(session => {
+    const { latitude, longitude } = session.locationCoords;
+    const key = exactOnly
+      ? `${latitude},${longitude}`
+      : `${Math.floor(latitude / cellLat)}:${Math.floor(longitude / cellLng)}`;
+    cells.set(key, [...(cells.get(key) ?? []), session]);
+  });
+
+  return [...cells.values()].map(members => ({
+    // Stable while the same sessions stay together, so markers are not remounted on every pan
+    key: members.map(s => s.id).sort().join(','),
+    coordinate: {
+      latitude: members.reduce((sum, s) => sum + s.locationCoords.latitude, 0) / members.length,
+      longitude: members.reduce((sum, s) => sum + s.locationCoords.longitude, 0) / members.length,
+    },
+    sessions: members,
+  }));
+};
+
+// True when every session in the cluster is at the same place (zooming in will not split it)
+export const isSingleSpot = (cluster: SessionCluster) =>
+  cluster.sessions.every(s =>
+    s.locationCoords.latitude === cluster.sessions[0].locationCoords.latitude
+    && s.locationCoords.longitude === cluster.sessions[0].locationCoords.longitude);
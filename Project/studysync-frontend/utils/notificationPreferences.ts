@@ -0,0 +1,162 @@
+/* Per-user notification preferences: reminder lead times, which kinds of
+   messages to show, quiet hours and the courses to hear about new sessions in.
+   The device copy lives in AsyncStorage (read by notificationService.js when it
+   schedules reminders); a copy in users/{uid} lets the backend find who follows
+   a course and restores the settings on a new device. */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getFirestore, doc, getDoc, setDoc } from 'firebase/firestore';
+import { FIREBASE_APP } from '../firebaseConfig';
+
+const PREFERENCES_KEY = '@notification_preferences';
+
+export type NotificationCategory = 'reminders' | 'hostChanges' | 'waitlistPromotions' | 'joinRequests' | 'newSessions';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM", 24-hour
+  end: string;   // may be earlier than start for overnight quiet hours
+}
+
+export interface NotificationPreferences {
+  leadTimes: number[]; // minutes before a session starts
+  categories: Record<NotificationCategory, boolean>;
+  quietHours: QuietHours;
+  courses: string[];   // "new sessions in my courses"
+}
+
+export const LEAD_TIME_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 2 * 60, label: '2 hours' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 15, label: '15 minutes' },
+];
+
+export const CATEGORY_OPTIONS: { value: NotificationCategory; label: string; description: string }[] = [
+  { value: 'reminders', label: 'Session reminders', description: 'Before sessions you joined or host' },
+  { value: 'hostChanges', label: 'Host changes', description: 'When a host edits or cancels a session' },
+  { value: 'waitlistPromotions', label: 'Waitlist promotions', description: 'When a spot opens up for you' },
+  { value: 'joinRequests', label: 'Join requests', description: 'When someone asks to join your session, or a host answers you' },
+  { value: 'newSessions', label: 'New sessions in my courses', description: 'When someone creates a session for a course below' },
+];
+
+// Matches the 30-minute reminder the app always used
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  leadTimes: [30],
+  categories: { reminders: true, hostChanges: true, waitlistPromotions: true, joinRequests: true, newSessions: false },
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  courses: [],
+};
+
+// Backend notification types by the category that controls them
+const CATEGORY_BY_TYPE: Record<string, NotificationCategory> = {
+  session_updated: 'hostChanges',
+  session_cancelled: 'hostChanges',
+  waitlist_promoted: 'waitlistPromotions',
+  new_session: 'newSessions',
+  join_request: 'joinRequests',
+  join_request_approved: 'joinRequests',
+  join_request_declined: 'joinRequests',
+};
+
+export const categoryForType = (type: string): NotificationCategory | null => CATEGORY_BY_TYPE[type] ?? null;
+
+// "CS 124", "cs124" and "CS-124" are the same course (same rule as lib/courses.js)
+export const courseKey = (course: string) => course.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+// "1 day" / "2 hours" / "15 minutes"
+export const formatLeadTime = (minutes: number): string => {
+  const option = LEAD_TIME_OPTIONS.find(o => o.minutes === minutes);
+  if (option) return option.label;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// "HH:MM" → minutes after midnight, or null if malformed
+export const parseClockTime = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export const isWithinQuietHours = (date: Date, quietHours: QuietHours): boolean => {
+  if (!quietHours.enabled) return false;
+  const start = parseClockTime(quietHours.start);
+  const end = parseClockTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const now = minutesOfDay(date);
+  // Overnight ranges (22:00–07:00) wrap past midnight
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+/**
+ * Move a reminder that would land in quiet hours to just before they begin,
+ * so "1 hour before an 8 AM session" arrives the evening before instead of
+ * being dropped. Times outside quiet hours are returned unchanged.
+ */
+export const adjustForQuietHours = (date: Date, quietHours: QuietHours): Date => {
+  if (!isWithinQuietHours(date, quietHours)) return date;
+
+  const start = parseClockTime(quietHours.start)!;
+  const quietStart = new Date(date);
+  quietStart.setHours(Math.floor(start / 60), start % 60, 0, 0);
+  // Started yesterday evening if the date is past midnight
+  if (quietStart > date) quietStart.setDate(quietStart.getDate() - 1);
+  return new Date(quietStart.getTime() - 60 * 1000);
+};
+
+const withDefaults = (stored: Partial<NotificationPreferences> | undefined): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...stored,
+  categories: { ...DEFAULT_NOTIFICATION_PREFERENCES.categories, ...stored?.categories },
+  quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...stored?.quietHours },
+});
+
+export const loadNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  try {
+    const json = await AsyncStorage.getItem(PREFERENCES_KEY);
+    return withDefaults(json ? JSON.parse(json) : undefined);
+  } catch (error) {
+    console.error('Error loading notification preferences:', error);
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+};
+
+// Settings saved from another device, or null if the user never saved any
+export const fetchRemoteNotificationPreferences = async (userId: string): Promise<NotificationPreferences | null> => {
+  const snapshot = await getDoc(doc(getFirestore(FIREBASE_APP), 'users', userId));
+  const stored = snapshot.data()?.notificationPreferences;
+  return stored ? withDefaults(stored) : null;
+};
+
+type PreferencesListener = (preferences: NotificationPreferences) => void;
+const listeners = new Set<PreferencesListener>();
+
+// Lets the reminder sync reschedule as soon as lead times or quiet hours change
+export const subscribeToNotificationPreferences = (listener: PreferencesListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const saveNotificationPreferences = async (userId: string, preferences: NotificationPreferences) => {
+  await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  // courseKeys is what the backend queries when a new session is created
+  await setDoc(
+    doc(getFirestore(FIREBASE_APP), 'users', userId),
+    {
+      notificationPreferences: preferences,
+      courseKeys: preferences.categories.newSessions ? preferences.courses.map(courseKey) : [],
+    },
+    { merge: true }
+  );
+  listeners.forEach(listener => listener(preferences));
+};
@@ -0,0 +1,66 @@
+/* Expo push token registration. Each device adds its token to
+   users/{uid}.expoPushTokens so the backend (services/pushDispatcher.js) can
+   reach it while the app is closed; logging out removes it again. The device
+   time zone is stored too, so quiet hours are checked in local time. */
+
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getFirestore, doc, setDoc, updateDoc, arrayUnion, arrayRemove } from 'firebase/firestore';
+import { FIREBASE_APP } from '../firebaseConfig';
+
+const PUSH_TOKEN_KEY = '@expo_push_token';
+
+// Set by `eas init`; push tokens cannot be issued without it
+const projectId = (): string | undefined =>
+  Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+
+// Token this device registered, if any (the inbox skips local alerts when pushes arrive)
+export const getRegisteredPushToken = () => AsyncStorage.getItem(PUSH_TOKEN_KEY);
+
+export const registerPushToken = async (userId: string): Promise<string | null> => {
+  if (Platform.OS === 'web') return null;
+
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted') return null;
+
+  const id = projectId();
+  if (!id) {
+    console.log('No EAS projectId configured; using local notifications only');
+    return null;
+  }
+
+  try {
+    const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId: id });
+    await setDoc(
+      doc(getFirestore(FIREBASE_APP), 'users', userId),
+      {
+        expoPushTokens: arrayUnion(token),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      },
+      { merge: true }
+    );
+    await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+    return token;
+  } catch (error) {
+    // Simulators and devices without Play Services cannot get a token
+    console.error('Error registering for push notifications:', error);
+    return null;
+  }
+};
+
+// Call before signing out, while the user can still write their document
+export const unregisterPushToken = async (userId: string) => {
+  const token = await getRegisteredPushToken();
+  if (!token) return;
+
+  try {
+    await updateDoc(doc(getFirestore(FIREBASE_APP), 'users', userId), {
+      expoPushTokens: arrayRemove(token),
+    });
+  } catch (error) {
+    console.error('Error removing push token:', error);
+  }
+  await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+};
@@ -0,0 +1,60 @@
+/* Recurring session helpers shared by the session list, profile and create form.
+   The rule shape matches parseRecurrenceRule in studysync-backend/lib/recurrence.js;
+   each occurrence is its own session document linked by `seriesId`. */
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceRule {
+  freq: 'weekly';
+  interval: number;      // every N weeks
+  byDay: Weekday[];
+  count?: number;        // total occurrences, including the first
+  until?: string;        // ISO date of the last possible occurrence
+}
+
+// Which occurrences an edit or cancel applies to
+export type SeriesScope = 'this' | 'future';
+
+export const WEEKDAYS: { value: Weekday; label: string }[] = [
+  { value: 'SU', label: 'Sun' },
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+];
+
+export const weekdayOf = (date: Date): Weekday => WEEKDAYS[date.getDay()].value;
+
+// "Weekly on Tue, Thu · 10 times" / "Every 2 weeks on Mon · until Dec 1"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const days = WEEKDAYS.filter(d => rule.byDay.includes(d.value)).map(d => d.label).join(', ');
+  const frequency = rule.interval > 1 ? `Every ${rule.interval} weeks` : 'Weekly';
+  let text = `${frequency} on ${days}`;
+  if (rule.count) {
+    text += ` · ${rule.count} times`;
+  } else if (rule.until) {
+    text += ` · until ${new Date(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  }
+  return text;
+};
+
+/**
+ * Group sessions of the same series together, keeping the input order:
+ * each group sits where its first session appeared. Sessions without a
+ * seriesId are groups of one.
+ */
+export const groupBySeries = <T extends { id: string; seriesId?: string | null }>(sessions: T[]): T[][] => {
+  const groups = new Map<string, T[]>();
+  sessions.forEach(session => {
+    const key = session.seriesId ? `series_${session.seriesId}` : session.id;
+    const group = groups.get(key);
+    if (group) {
+      group.push(session);
+    } else {
+      groups.set(key, [session]);
+    }
+  });
+  return Array.from(groups.values());
+};
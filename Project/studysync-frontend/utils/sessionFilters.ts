@@ -0,0 +1,184 @@
+/* Search and FilterModal filters shared by the session list and the Campus
+   map. The current values live in SessionFiltersContext so both screens
+   show the same sessions. */
+
+import { StudySession, SignupPolicy } from './sessions';
+
+// Status filter: the caller's place in a session, or sessions that still have room
+export type AttendanceFilter = 'any' | 'going' | 'interested' | 'requested' | 'openSpots';
+
+export const ATTENDANCE_FILTER_OPTIONS: { value: AttendanceFilter; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'going', label: 'Going' },
+  { value: 'interested', label: 'Might Come' },
+  { value: 'requested', label: 'Requested' },
+  { value: 'openSpots', label: 'Open Spots' },
+];
+
+export interface SessionFilters {
+  startDate: Date | null;
+  endDate: Date | null;
+  startTime: string;   // HH:MM, 24-hour
+  endTime: string;
+  capacity: string;    // Minimum capacity as typed
+  signupPolicy: SignupPolicy | null;
+  status: AttendanceFilter;
+}
+
+export const DEFAULT_SESSION_FILTERS: SessionFilters = {
+  startDate: null,
+  endDate: null,
+  startTime: '',
+  endTime: '',
+  capacity: '',
+  signupPolicy: null,
+  status: 'any',
+};
+
+// How many filters differ from the defaults (shown on the Filters button)
+export const countActiveFilters = (filters: SessionFilters) =>
+  (Object.keys(DEFAULT_SESSION_FILTERS) as (keyof SessionFilters)[])
+    .filter(key => filters[key] !== DEFAULT_SESSION_FILTERS[key]).length;
+
+/* AI-ASSISTED
+   Source/Tool: GitHub Copilot (Chat)
+   Author/Reviewer: Elias Ghanayem
+   Date: 2025-11-12
+   Why AI: Implement flexible, spacing/case-insensitive search quickly.
+   Matching rule: normalize both strings (remove non-alphanumerics, uppercase) and use includes(). */
+export const normalize = (s: string) => s.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+/* AI-ASSISTED
+   Source/Tool: Claude Code
+   Author/Reviewer: Nikhil Kothavade
+   Date: 2025-12-06
+   Why AI: Implemented comprehensive filtering logic with date, time, signup policy, and capacity filters
+   Notes: Sessions without capacity are excluded when capacity filter is applied, as requested */
+export const filterSessions = (
+  sessions: StudySession[],
+  searchText: string,
+  filters: SessionFilters,
+  uid: string | undefined
+): StudySession[] => {
+  const {
+    startDate: filterStartDate,
+    endDate: filterEndDate,
+    startTime: filterStartTime,
+    endTime: filterEndTime,
+    capacity: filterCapacity,
+    signupPolicy: filterSignupPolicy,
+    status: filterStatus,
+  } = filters;
+  const q = normalize(searchText || '');
+  // Cancelled sessions only appear in profile history
+  let filtered = sessions.filter(s => s.status !== 'cancelled');
+
+  // FILTER: Hide sessions that have ended
+  // If session has an explicit end time, use it; otherwise use start time + 1 hour
+  const now = new Date();
+  const oneHourInMs = 60 * 60 * 1000; // 1 hour in milliseconds (60 min × 60 sec × 1000 ms)
+  filtered = filtered.filter(s => {
+    if (s.endTime) {
+      // If session has explicit end time, hide after it passes
+      return s.endTime >= now;
+    } else {
+      // Otherwise, hide 1 hour after start time
+      const oneHourAfterStart = new Date(s.startTime.getTime() + oneHourInMs);
+      return oneHourAfterStart >= now;
+    }
+  });
+
+  // Apply search filter
+  if (q) {
+    filtered = filtered.filter(s =>
+      normalize(s.course).includes(q) || normalize(s.topic).includes(q)
+    );
+  }
+
+  // Apply date filter (start date)
+  if (filterStartDate) {
+    filtered = filtered.filter(s => {
+      const sessionDate = new Date(s.startTime);
+      sessionDate.setHours(0, 0, 0, 0);
+      const filterDate = new Date(filterStartDate);
+      filterDate.setHours(0, 0, 0, 0);
+      return sessionDate >= filterDate;
+    });
+  }
+
+  // Apply date filter (end date)
+  if (filterEndDate) {
+    filtered = filtered.filter(s => {
+      const sessionDate = new Date(s.startTime);
+      sessionDate.setHours(0, 0, 0, 0);
+      const filterDate = new Date(filterEndDate);
+      filterDate.setHours(0, 0, 0, 0);
+      return sessionDate <= filterDate;
+    });
+  }
+
+  // Apply time filter (start time)
+  if (filterStartTime) {
+    const [hours, minutes] = filterStartTime.split(':').map(Number);
+    if (!isNaN(hours) && !isNaN(minutes)) {
+      filtered = filtered.filter(s => {
+        const sessionHours = s.startTime.getHours();
+        const sessionMinutes = s.startTime.getMinutes();
+        const sessionTimeInMinutes = sessionHours * 60 + sessionMinutes;
+        const filterTimeInMinutes = hours * 60 + minutes;
+        return sessionTimeInMinutes >= filterTimeInMinutes;
+      });
+    }
+  }
+
+  // Apply time filter (end time)
+  if (filterEndTime) {
+    const [hours, minutes] = filterEndTime.split(':').map(Number);
+    if (!isNaN(hours) && !isNaN(minutes)) {
+      filtered = filtered.filter(s => {
+        const sessionHours = s.startTime.getHours();
+        const sessionMinutes = s.startTime.getMinutes();
+        const sessionTimeInMinutes = sessionHours * 60 + sessionMinutes;
+        const filterTimeInMinutes = hours * 60 + minutes;
+        return sessionTimeInMinutes <= filterTimeInMinutes;
+      });
+    }
+  }
+
+  // Apply capacity filter (exclude sessions without capacity when filter is set)
+  if (filterCapacity) {
+    const minCapacity = parseInt(filterCapacity, 10);
+    if (!isNaN(minCapacity)) {
+      filtered = filtered.filter(s => {
+        // Exclude sessions without a defined capacity
+        if (s.capacity === undefined || s.capacity === null) {
+          return false;
+        }
+        return s.capacity >= minCapacity;
+      });
+    }
+  }
+
+  if (filterSignupPolicy) {
+    filtered = filtered.filter(s => s.signupPolicy === filterSignupPolicy);
+  }
+
+  // Apply status filter (relative to the signed-in user)
+  const userId = uid ?? '';
+  switch (filterStatus) {
+    case 'going':
+      filtered = filtered.filter(s => s.attendees.includes(userId) || s.dropIns.includes(userId));
+      break;
+    case 'interested':
+      filtered = filtered.filter(s => s.interested.includes(userId));
+      break;
+    case 'requested':
+      filtered = filtered.filter(s => s.pendingRequests.includes(userId) || s.waitlist.includes(userId));
+      break;
+    case 'openSpots':
+      filtered = filtered.filter(s => !s.isFull);
+      break;
+  }
+
+  return filtered;
+};
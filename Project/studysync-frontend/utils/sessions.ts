@@ -0,0 +1,153 @@
+/* Study session shape used across screens, plus the Firestore mapping and
+   small display helpers shared by the session list and the detail screen. */
+
+import { Platform, Linking } from 'react-native';
+import * as ExpoLinking from 'expo-linking';
+import { DocumentData, Timestamp } from 'firebase/firestore';
+import { RecurrenceRule } from './recurrence';
+
+export interface LocationCoords {
+  latitude: number;
+  longitude: number;
+}
+
+// public: listed for everyone; unlisted: only through the invite link;
+// invite: through the link, and joining needs its code
+export type SessionVisibility = 'public' | 'unlisted' | 'invite';
+
+export const VISIBILITY_OPTIONS: { value: SessionVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Anyone can find and join this session' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Hidden from the list; anyone with the link can join' },
+  { value: 'invite', label: 'Invite only', description: 'Hidden from the list; joining requires the invite code' },
+];
+
+export type SignupPolicy = 'required' | 'preferred' | 'open';
+
+export const SIGNUP_POLICY_OPTIONS: { value: SignupPolicy; label: string; description: string }[] = [
+  { value: 'open', label: 'Open', description: 'Anyone can join until the session is full; "I might come" takes no spot' },
+  { value: 'preferred', label: 'Preferred', description: 'RSVP ahead; drop-ins check in at the door and are counted apart' },
+  { value: 'required', label: 'Required', description: 'You approve each request to join' },
+];
+
+export interface StudySession {
+  id: string;
+  creatorId: string;
+  creatorName: string;
+  course: string;
+  topic: string;
+  locationName: string;
+  locationDetails?: string;
+  locationCoords: LocationCoords;
+  startTime: Date;
+  endTime?: Date | null;
+  signupPolicy: SignupPolicy;
+  capacity?: number;
+  attendees: string[];
+  waitlist: string[];          // UIDs queued for a spot, first in line first
+  pendingRequests: string[];   // "required" sessions: UIDs waiting for the host's approval
+  interested: string[];        // "open" sessions: "I might come", takes no spot
+  dropIns: string[];           // "preferred" sessions: checked in without an RSVP
+  isFull: boolean;
+  status: 'active' | 'cancelled';
+  cancelReason?: string;
+  seriesId?: string;           // Shared by every occurrence of a recurring session
+  recurrence?: RecurrenceRule;
+  visibility: SessionVisibility;
+  inviteCode?: string;         // Set for unlisted and invite-only sessions
+  createdAt: Date;
+}
+
+// Firestore document -> StudySession, with safe defaults for missing fields
+export const sessionFromSnapshot = (id: string, data: DocumentData): StudySession => {
+  // Safely handle Timestamps from Firestore
+  const startTime = data.startTime instanceof Timestamp ? data.startTime.toDate() : new Date();
+  const endTime = data.endTime instanceof Timestamp ? data.endTime.toDate() : null;
+  const createdAt = data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date();
+
+  return {
+    id,
+    creatorId: data.creatorId || 'N/A',
+    creatorName: data.creatorName || 'Unknown',
+    course: data.course || 'Unknown Course',
+    topic: data.topic || 'No Topic',
+    locationName: data.locationName || 'Unspecified Location',
+    locationDetails: data.locationDetails,
+    locationCoords: data.locationCoords || { latitude: 0, longitude: 0 },
+    startTime,
+    endTime,
+    signupPolicy: data.signupPolicy || 'open',
+    capacity: data.capacity,
+    attendees: data.attendees || [],
+    waitlist: data.waitlist || [],
+    pendingRequests: data.pendingRequests || [],
+    interested: data.interested || [],
+    dropIns: data.dropIns || [],
+    isFull: data.isFull || false,
+    status: data.status === 'cancelled' ? 'cancelled' : 'active',
+    cancelReason: data.cancelReason,
+    seriesId: data.seriesId,
+    recurrence: data.recurrence,
+    visibility: data.visibility === 'unlisted' || data.visibility === 'invite' ? data.visibility : 'public',
+    inviteCode: data.inviteCode,
+    createdAt,
+  };
+};
+
+// studysync://session/<id> in builds, an exp:// URL in Expo Go
+export const sessionDeepLink = (sessionId: string) => ExpoLinking.createURL(`session/${sessionId}`);
+
+// studysync://invite/<code>; opens app/invite/[code].tsx
+export const inviteDeepLink = (code: string) => ExpoLinking.createURL(`invite/${code}`);
+
+// Drop-in check-in opens this long before a "preferred" session (DROP_IN_OPENS_MS on the backend)
+export const DROP_IN_OPENS_MS = 15 * 60 * 1000;
+
+type AttendanceCounts = Pick<StudySession, 'signupPolicy' | 'capacity' | 'attendees'>
+  & Partial<Pick<StudySession, 'interested' | 'dropIns' | 'pendingRequests'>>;
+
+// Attendance line for cards and the detail screen, worded for the signup policy
+export const describeAttendance = (session: AttendanceCounts): string => {
+  const going = session.attendees.length;
+  const spots = session.capacity ? `${going} / ${session.capacity}` : `${going}`;
+  switch (session.signupPolicy) {
+    case 'preferred': {
+      const dropIns = session.dropIns?.length ?? 0;
+      return `${spots} RSVP'd${dropIns > 0 ? ` · ${dropIns} drop-in${dropIns === 1 ? '' : 's'}` : ''}`;
+    }
+    case 'required': {
+      const pending = session.pendingRequests?.length ?? 0;
+      return `${spots} approved${pending > 0 ? ` · ${pending} pending` : ''}`;
+    }
+    default: {
+      const maybe = session.interested?.length ?? 0;
+      return `${spots} attending${maybe > 0 ? ` · ${maybe} might come` : ''}`;
+    }
+  }
+};
+
+export const formatTime = (date: Date | null | undefined): string => {
+  if (!date) return 'TBD';
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
+};
+
+export const formatDate = (date: Date | null | undefined): string => {
+  if (!date) return 'Date TBD';
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export const openGoogleMaps = (coords: LocationCoords) => {
+  const { latitude, longitude } = coords;
+  const url = Platform.select({
+    ios: `comgooglemaps://?q=${latitude},${longitude}&zoom=15`,
+    android: `geo:${latitude},${longitude}?q=${latitude},${longitude}`,
+    default: `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`,
+  });
+
+  Linking.canOpenURL(url).then(supported => {
+    if (supported) {
+      Linking.openURL(url);
+    } else {
+      Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`);
+    }
+  });
+};
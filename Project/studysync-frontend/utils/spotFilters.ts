@@ -0,0 +1,40 @@
+/* Filters for rated study spots, built on the detail scores and amenity
+   tags from reviews (utils/locationRatings.ts). Used by the location picker
+   in CreateSessionModal and the "Study spots" layer on the Campus map. */
+
+import { AmenityTag, LocationAttribute, LocationRating } from './locationRatings';
+
+export type SpotTrait = 'quiet' | 'lively' | 'outlets' | 'wifi' | 'seating' | 'groups';
+
+// A trait matches when the spot's average for `attribute` is at most 2.5
+// (`low`) or at least 3.5 (`high`)
+export const SPOT_TRAIT_OPTIONS: { value: SpotTrait; label: string; attribute: LocationAttribute; want: 'low' | 'high' }[] = [
+  { value: 'quiet', label: 'Quiet', attribute: 'noise', want: 'low' },
+  { value: 'lively', label: 'Lively', attribute: 'noise', want: 'high' },
+  { value: 'outlets', label: 'Outlets', attribute: 'outlets', want: 'high' },
+  { value: 'wifi', label: 'Good Wi-Fi', attribute: 'wifi', want: 'high' },
+  { value: 'seating', label: 'Seating', attribute: 'seating', want: 'high' },
+  { value: 'groups', label: 'Group-friendly', attribute: 'groupFriendly', want: 'high' },
+];
+
+export interface SpotFilters {
+  traits: SpotTrait[];
+  amenities: AmenityTag[];
+}
+
+export const DEFAULT_SPOT_FILTERS: SpotFilters = {
+  traits: [],
+  amenities: [],
+};
+
+export const countSpotFilters = (filters: SpotFilters) => filters.traits.length + filters.amenities.length;
+
+// Spots nobody has scored for an attribute never match a trait on it
+export const matchesSpotFilters = (location: LocationRating, filters: SpotFilters): boolean =>
+  filters.traits.every(trait => {
+    const option = SPOT_TRAIT_OPTIONS.find(o => o.value === trait);
+    const average = option ? location.attributeAverages[option.attribute] : undefined;
+    if (!option || average === undefined) return false;
+    return option.want === 'low' ? average <= 2.5 : average >= 3.5;
+  })
+  && filters.amenities.every(tag => (location.amenityCounts[tag] ?? 0) > 0);
@@ -0,0 +1,74 @@
+/* users/{uid} profile (Research/eghan/PLAN.md): display name, courses and
+   the roster privacy switch. Created at sign-up, or at the next sign-in for
+   accounts that predate profiles. Only the owner can read the document;
+   other people see the public fields through GET /sessions/:id/roster. */
+
+import { User } from 'firebase/auth';
+import { getFirestore, doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { FIREBASE_APP } from '../firebaseConfig';
+
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+export const MAX_PROFILE_COURSES = 20;
+
+export interface UserProfile {
+  uid: string;
+  email: string | null;
+  displayName: string;
+  courses: string[];
+  // Listed as "Anonymous student" on other people's rosters
+  anonymousOnRosters: boolean;
+  privateProfile: {
+    phoneNumber?: string;
+    linkedSocials?: Record<string, string>;
+  };
+}
+
+const profileRef = (uid: string) => doc(getFirestore(FIREBASE_APP), 'users', uid);
+
+// Firestore data -> UserProfile; the same document also holds push tokens and notification settings
+const profileFromData = (uid: string, data: Record<string, any> | undefined, fallbackName: string): UserProfile => ({
+  uid,
+  email: data?.email ?? null,
+  displayName: data?.displayName || fallbackName,
+  courses: data?.courses ?? [],
+  anonymousOnRosters: data?.anonymousOnRosters === true,
+  privateProfile: data?.privateProfile ?? {},
+});
+
+export const createUserProfile = async (user: User, displayName: string) => {
+  await setDoc(
+    profileRef(user.uid),
+    {
+      uid: user.uid,
+      email: user.email,
+      displayName: displayName.trim().slice(0, MAX_DISPLAY_NAME_LENGTH),
+      courses: [],
+      anonymousOnRosters: false,
+      privateProfile: {},
+      createdAt: serverTimestamp(),
+    },
+    // Push registration may have created the document already
+    { merge: true }
+  );
+};
+
+// Accounts created before profiles existed get one from their auth display name.
+// A brand-new account has no name yet at this point; signUp creates its profile.
+export const ensureUserProfile = async (user: User) => {
+  if (!user.displayName) return;
+  const snapshot = await getDoc(profileRef(user.uid));
+  if (snapshot.data()?.displayName) return;
+  await createUserProfile(user, user.displayName);
+};
+
+export const fetchUserProfile = async (user: User): Promise<UserProfile> => {
+  const snapshot = await getDoc(profileRef(user.uid));
+  return profileFromData(user.uid, snapshot.data(), user.displayName || 'Student');
+};
+
+export const saveUserProfile = async (
+  uid: string,
+  changes: Pick<UserProfile, 'displayName' | 'courses' | 'anonymousOnRosters'>
+) => {
+  await setDoc(profileRef(uid), changes, { merge: true });
+};